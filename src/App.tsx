@@ -2,14 +2,19 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { TimelineList } from './pages/TimelineList';
 import { TimelineDetail } from './pages/TimelineDetail';
 import { ClientView } from './pages/ClientView';
+import { ShortLink } from './pages/ShortLink';
+import { Agenda } from './pages/Agenda';
+import { StaffGate } from './components/StaffGate';
 
 function App() {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<TimelineList />} />
-        <Route path="/timeline/:id" element={<TimelineDetail />} />
+        <Route path="/" element={<StaffGate><TimelineList /></StaffGate>} />
+        <Route path="/timeline/:id" element={<StaffGate><TimelineDetail /></StaffGate>} />
         <Route path="/client" element={<ClientView />} />
+        <Route path="/s/:code" element={<ShortLink />} />
+        <Route path="/agenda" element={<StaffGate><Agenda /></StaffGate>} />
       </Routes>
     </BrowserRouter>
   );
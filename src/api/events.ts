@@ -1,27 +1,57 @@
+import type { RecalculationOptions, RecalculationResult } from '../types';
+import { authHeaders } from '../lib/supabase';
+
+const EVENTS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/events`;
+
 export async function getEventSourceHead(eventId: string) {
-  const res = await fetch(`/api/events/${eventId}/source-head`, { credentials: 'include' });
+  const res = await fetch(`${EVENTS_URL}/${eventId}/source-head`, {
+    headers: await authHeaders(),
+  });
   if (!res.ok) throw new Error('Failed to fetch source head');
   return res.json() as Promise<{ date: string; sourceVersion: number; }>;
 }
 
-export async function updateEventDate(eventId: string, dateISO: string, clientMutationId?: string, force = false) {
-  const res = await fetch(`/api/events/${eventId}/date`, {
+export async function updateEventDate(eventId: string, dateISO: string, sourceVersion?: number, clientMutationId?: string, force = false) {
+  const res = await fetch(`${EVENTS_URL}/${eventId}/date`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    credentials: 'include',
-    body: JSON.stringify({ date: dateISO, clientMutationId, force }),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await authHeaders()),
+    },
+    body: JSON.stringify({ date: dateISO, sourceVersion, clientMutationId, force }),
   });
   if (!res.ok) throw new Error(await res.text());
   return res.json() as Promise<{ ok: true; sourceVersion: number }>;
 }
 
-export async function recalcTimeline(timelineId: string, opts?: { respectLocks?: boolean; distribution?: 'frontload'|'balanced'|'even' }) {
-  const res = await fetch(`/api/timelines/${timelineId}/recalculate`, {
+export async function recalcTimeline(timelineId: string, opts?: RecalculationOptions) {
+  const res = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines-recalculate/${timelineId}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await authHeaders()),
+    },
     body: JSON.stringify({ respectLocks: true, distribution: 'frontload', ...opts }),
   });
-  if (!res.ok) throw new Error('Failed to recalc');
-  return res.json();
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to recalc');
+  }
+  return res.json() as Promise<RecalculationResult>;
+}
+
+export async function restoreLastRecalculation(timelineId: string, snapshotId?: string) {
+  const res = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines-recalculate/${timelineId}/restore`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await authHeaders()),
+    },
+    body: JSON.stringify({ snapshotId }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to restore');
+  }
+  return res.json() as Promise<{ success: true; snapshot_id: string; restored_blocks: number; restored_tasks: number }>;
 }
@@ -0,0 +1,23 @@
+import { authHeaders } from '../lib/supabase';
+
+export type ExportFile = 'export.csv' | 'export.pdf' | 'export.docx';
+
+export async function downloadTimelineExport(
+  timelineId: string,
+  file: ExportFile,
+  params: Record<string, string>,
+  filename: string
+) {
+  const query = new URLSearchParams(params).toString();
+  const res = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines/${timelineId}/${file}?${query}`, {
+    headers: await authHeaders(),
+  });
+  if (!res.ok) throw new Error('Failed to export timeline');
+
+  const blob = await res.blob();
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
@@ -0,0 +1,45 @@
+import type { ShareLink } from '../types';
+import { authHeaders } from '../lib/supabase';
+
+const TIMELINES_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines`;
+
+export interface NewShareLink {
+  label: string | null;
+  displayName: string | null;
+  email: string | null;
+  expiresInDays: number;
+  readOnly: boolean;
+}
+
+export interface CreatedShareLink extends ShareLink {
+  url: string;
+  clientUrl: string;
+}
+
+export async function createShareLink(timelineId: string, link: NewShareLink) {
+  const res = await fetch(`${TIMELINES_URL}/${timelineId}/share`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await authHeaders()),
+    },
+    body: JSON.stringify(link),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to create share link');
+  }
+  return res.json() as Promise<CreatedShareLink>;
+}
+
+export async function revokeShareLink(timelineId: string, shareLinkId: string) {
+  const res = await fetch(`${TIMELINES_URL}/${timelineId}/share/${shareLinkId}/revoke`, {
+    method: 'POST',
+    headers: await authHeaders(),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to revoke share link');
+  }
+  return res.json() as Promise<ShareLink>;
+}
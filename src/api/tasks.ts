@@ -0,0 +1,25 @@
+import type { Task } from '../types';
+import { authHeaders } from '../lib/supabase';
+
+const TIMELINES_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines`;
+
+export type TaskUpdate = Partial<Pick<
+  Task,
+  'due_date' | 'locked' | 'depends_on_task_ids' | 'start_date' | 'duration_days' | 'min_lead_days_before_event'
+>>;
+
+export async function updateTask(timelineId: string, taskId: string, updates: TaskUpdate) {
+  const res = await fetch(`${TIMELINES_URL}/${timelineId}/tasks/${taskId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await authHeaders()),
+    },
+    body: JSON.stringify(updates),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to update task');
+  }
+  return res.json() as Promise<Task>;
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+
+interface ClientIdentityPromptProps {
+  saving: boolean;
+  error: string | null;
+  onSave: (displayName: string, email: string | null) => void;
+  onSkip: () => void;
+}
+
+export function ClientIdentityPrompt({ saving, error, onSave, onSkip }: ClientIdentityPromptProps) {
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    onSave(displayName.trim(), email.trim() || null);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 print:hidden">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-xl font-semibold text-gray-900">Who are you?</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Your name is shown next to the tasks you check off, so everyone planning the event can see who did what.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Your name</span>
+            <input
+              type="text"
+              required
+              maxLength={80}
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Email (optional)</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Not now
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !displayName.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Continue'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
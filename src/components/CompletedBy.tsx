@@ -0,0 +1,16 @@
+import type { Task } from '../types';
+
+interface CompletedByProps {
+  task: Task;
+}
+
+export function CompletedBy({ task }: CompletedByProps) {
+  if (!task.done || !task.done_by) return null;
+
+  return (
+    <span className="text-xs text-gray-500">
+      Done by {task.done_by}
+      {task.done_at && <> on {new Date(task.done_at).toLocaleDateString()}</>}
+    </span>
+  );
+}
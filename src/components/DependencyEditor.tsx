@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { Block, Task } from '../types';
+
+interface DependencyEditorProps {
+  task: Task;
+  blocks: Block[];
+  saving: boolean;
+  error: string | null;
+  onSave: (dependsOnTaskIds: string[]) => void;
+  onClose: () => void;
+}
+
+export function DependencyEditor({ task, blocks, saving, error, onSave, onClose }: DependencyEditorProps) {
+  const [dependsOn, setDependsOn] = useState<string[]>(task.depends_on_task_ids || []);
+  const [newDependency, setNewDependency] = useState('');
+
+  const tasksById = new Map(blocks.flatMap(block => block.tasks || []).map(t => [t.id, t]));
+
+  function addDependency() {
+    if (!newDependency || dependsOn.includes(newDependency)) return;
+    setDependsOn([...dependsOn, newDependency]);
+    setNewDependency('');
+  }
+
+  function removeDependency(taskId: string) {
+    setDependsOn(dependsOn.filter(id => id !== taskId));
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Dependencies</h3>
+            <p className="text-sm text-gray-600 mt-1">{task.title} can only be done after:</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {dependsOn.length === 0 ? (
+            <p className="text-sm text-gray-500">No dependencies</p>
+          ) : (
+            <ul className="space-y-2">
+              {dependsOn.map(taskId => {
+                const dependency = tasksById.get(taskId);
+                return (
+                  <li key={taskId} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                    <span className={`flex-1 text-sm text-gray-900 ${dependency?.done ? 'line-through opacity-60' : ''}`}>
+                      {dependency?.title ?? 'Deleted task'}
+                    </span>
+                    {dependency?.due_date && (
+                      <span className="text-xs text-gray-500">
+                        Due: {new Date(dependency.due_date).toLocaleDateString()}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => removeDependency(taskId)}
+                      className="p-1 text-gray-500 hover:bg-gray-200 rounded transition-colors"
+                      title="Remove dependency"
+                    >
+                      <X size={14} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-2">
+            <select
+              value={newDependency}
+              onChange={(e) => setNewDependency(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Add a task this depends on…</option>
+              {blocks.map(block => (
+                <optgroup key={block.id} label={block.title}>
+                  {(block.tasks || [])
+                    .filter(t => t.id !== task.id && !dependsOn.includes(t.id))
+                    .map(t => (
+                      <option key={t.id} value={t.id}>{t.title}</option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+            <button
+              onClick={addDependency}
+              disabled={!newDependency}
+              className="px-3 py-2 text-sm text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(dependsOn)}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save dependencies'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Pin, ZoomIn, ZoomOut } from 'lucide-react';
+import { getAssigneeColor } from '../utils/assignee';
+import { addDays, daysBetween, parseDate, toISODate, todayISODate } from '../utils/scheduling';
+import type { Block, Task } from '../types';
+
+interface GanttChartProps {
+  blocks: Block[];
+  eventDate?: string;
+  isTaskVisible: (task: Task) => boolean;
+  // Omitted for staff who cannot edit; tasks then cannot be dragged.
+  onTaskDateChange?: (task: Task, dueDate: string) => void;
+}
+
+const ZOOM_LEVELS = [
+  { label: 'Months', dayWidth: 3 },
+  { label: 'Weeks', dayWidth: 10 },
+  { label: 'Days', dayWidth: 28 },
+];
+
+const LABEL_WIDTH = 192;
+const AXIS_HEIGHT = 28;
+const BLOCK_HEADER = 22;
+const LANE_HEIGHT = 18;
+const MARKER_SIZE = 12;
+const ROW_PADDING = 8;
+
+interface TaskPosition {
+  x: number;
+  y: number;
+}
+
+export function GanttChart({ blocks, eventDate, isTaskVisible, onTaskDateChange }: GanttChartProps) {
+  const [zoom, setZoom] = useState(1);
+  const [drag, setDrag] = useState<{ taskId: string; startX: number; offsetDays: number } | null>(null);
+
+  const { dayWidth } = ZOOM_LEVELS[zoom];
+  const today = todayISODate();
+
+  const dates = [
+    today,
+    ...(eventDate ? [eventDate.substring(0, 10)] : []),
+    ...blocks.flatMap(block => [block.start_date, block.end_date]),
+    ...blocks.flatMap(block => (block.tasks || []).map(task => task.due_date)),
+  ].filter((date): date is string => !!date).map(date => date.substring(0, 10)).sort();
+
+  const rangeStart = addDays(parseDate(dates[0]), -7);
+  const rangeEnd = addDays(parseDate(dates[dates.length - 1]), 14);
+  const totalDays = daysBetween(rangeStart, rangeEnd);
+  const width = totalDays * dayWidth;
+  const xOf = (dateISO: string) => daysBetween(rangeStart, parseDate(dateISO)) * dayWidth;
+
+  // Markers in a block are stacked into lanes so tasks due close together do not
+  // overlap; the number of lanes is the block's density at a glance.
+  const positions = new Map<string, TaskPosition>();
+  let top = AXIS_HEIGHT;
+  const rows = blocks.map(block => {
+    const tasks = (block.tasks || [])
+      .filter(task => task.due_date && isTaskVisible(task))
+      .sort((a, b) => a.due_date!.localeCompare(b.due_date!));
+    const laneEnds: number[] = [];
+    const placed = tasks.map(task => {
+      const x = xOf(task.due_date!) + dayWidth / 2;
+      let lane = laneEnds.findIndex(end => x - end >= MARKER_SIZE + 2);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = x;
+      return { task, x, lane };
+    });
+
+    const rowTop = top;
+    const height = BLOCK_HEADER + Math.max(laneEnds.length, 1) * LANE_HEIGHT + ROW_PADDING;
+    placed.forEach(({ task, x, lane }) => {
+      positions.set(task.id, { x, y: rowTop + BLOCK_HEADER + lane * LANE_HEIGHT + LANE_HEIGHT / 2 });
+    });
+    top += height;
+    return { block, top: rowTop, height, placed };
+  });
+  const chartHeight = top;
+
+  const months: Date[] = [];
+  for (
+    let month = new Date(Date.UTC(rangeStart.getUTCFullYear(), rangeStart.getUTCMonth() + 1, 1));
+    month < rangeEnd;
+    month = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1))
+  ) {
+    months.push(month);
+  }
+
+  const dependencies = rows.flatMap(({ placed }) => placed.flatMap(({ task }) =>
+    (task.depends_on_task_ids || [])
+      .filter(depId => positions.has(depId))
+      .map(depId => ({ from: depId, to: task }))
+  ));
+  const dueDates = new Map(rows.flatMap(({ placed }) => placed.map(({ task }) => [task.id, task.due_date!])));
+
+  function handlePointerDown(e: React.PointerEvent<HTMLDivElement>, task: Task) {
+    if (!onTaskDateChange) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ taskId: task.id, startX: e.clientX, offsetDays: 0 });
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLDivElement>) {
+    if (!drag) return;
+    setDrag({ ...drag, offsetDays: Math.round((e.clientX - drag.startX) / dayWidth) });
+  }
+
+  function handlePointerUp(task: Task) {
+    if (!drag) return;
+    if (drag.offsetDays !== 0) {
+      onTaskDateChange?.(task, toISODate(addDays(parseDate(task.due_date!), drag.offsetDays)));
+    }
+    setDrag(null);
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-100 border border-blue-700" /> Client</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-purple-100 border border-purple-700" /> JS</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-100 border border-green-700" /> Joint</span>
+          <span className="flex items-center gap-1"><Pin size={12} className="text-orange-600" /> Locked</span>
+          {onTaskDateChange && <span>Drag a task to set its due date and lock it</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoom(Math.max(zoom - 1, 0))}
+            disabled={zoom === 0}
+            className="p-1 text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-40"
+            title="Zoom out"
+          >
+            <ZoomOut size={16} />
+          </button>
+          <span className="text-xs text-gray-600 w-14 text-center">{ZOOM_LEVELS[zoom].label}</span>
+          <button
+            onClick={() => setZoom(Math.min(zoom + 1, ZOOM_LEVELS.length - 1))}
+            disabled={zoom === ZOOM_LEVELS.length - 1}
+            className="p-1 text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-40"
+            title="Zoom in"
+          >
+            <ZoomIn size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex border border-gray-200 rounded-lg overflow-hidden">
+        <div className="flex-shrink-0 border-r border-gray-200 bg-gray-50" style={{ width: LABEL_WIDTH }}>
+          <div style={{ height: AXIS_HEIGHT }} className="border-b border-gray-200" />
+          {rows.map(({ block, height }) => (
+            <div key={block.id} style={{ height }} className="px-3 py-1 border-b border-gray-100 text-sm font-medium text-gray-800 truncate">
+              {block.title}
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto flex-1">
+          <div className="relative" style={{ width, height: chartHeight }}>
+            {months.map(month => (
+              <div
+                key={month.toISOString()}
+                className="absolute top-0 bottom-0 border-l border-gray-100"
+                style={{ left: xOf(toISODate(month)) }}
+              >
+                <span className="absolute top-1 left-1 text-xs text-gray-500 whitespace-nowrap">
+                  {month.toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' })}
+                </span>
+              </div>
+            ))}
+
+            {rows.map(({ block, top: rowTop, height }) => (
+              <div key={block.id} className="absolute left-0 right-0 border-b border-gray-100" style={{ top: rowTop, height }}>
+                {block.start_date && block.end_date && (
+                  <div
+                    className="absolute bg-gray-200 rounded"
+                    style={{
+                      left: xOf(block.start_date),
+                      width: Math.max(xOf(block.end_date) - xOf(block.start_date), dayWidth),
+                      top: 4,
+                      height: BLOCK_HEADER - 8,
+                    }}
+                    title={`${block.title}: ${block.start_date} – ${block.end_date}`}
+                  />
+                )}
+              </div>
+            ))}
+
+            <svg className="absolute inset-0 pointer-events-none" width={width} height={chartHeight}>
+              <defs>
+                <marker id="gantt-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" fill="#9ca3af" />
+                </marker>
+                <marker id="gantt-arrow-late" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" fill="#dc2626" />
+                </marker>
+              </defs>
+              {dependencies.map(({ from, to }) => {
+                const start = positions.get(from)!;
+                const end = positions.get(to.id)!;
+                const late = dueDates.get(from)! >= to.due_date!;
+                const midX = (start.x + end.x) / 2;
+                return (
+                  <path
+                    key={`${from}-${to.id}`}
+                    d={`M${start.x + MARKER_SIZE / 2},${start.y} C${midX},${start.y} ${midX},${end.y} ${end.x - MARKER_SIZE / 2},${end.y}`}
+                    fill="none"
+                    stroke={late ? '#dc2626' : '#9ca3af'}
+                    strokeWidth={1.5}
+                    markerEnd={`url(#${late ? 'gantt-arrow-late' : 'gantt-arrow'})`}
+                  />
+                );
+              })}
+            </svg>
+
+            <div className="absolute top-0 bottom-0 border-l-2 border-red-500" style={{ left: xOf(today) }} title={`Today (${today})`}>
+              <span className="absolute bottom-1 left-1 text-xs font-medium text-red-600">Today</span>
+            </div>
+            {eventDate && (
+              <div className="absolute top-0 bottom-0 border-l-2 border-gray-900" style={{ left: xOf(eventDate.substring(0, 10)) }}>
+                <span className="absolute bottom-1 left-1 text-xs font-medium text-gray-900">Event</span>
+              </div>
+            )}
+
+            {rows.flatMap(({ placed }) => placed.map(({ task }) => {
+              const position = positions.get(task.id)!;
+              const offsetDays = drag?.taskId === task.id ? drag.offsetDays : 0;
+              const dueDate = toISODate(addDays(parseDate(task.due_date!), offsetDays));
+              return (
+                <div
+                  key={task.id}
+                  onPointerDown={(e) => handlePointerDown(e, task)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => handlePointerUp(task)}
+                  className={`absolute flex items-center justify-center rounded-sm border ${onTaskDateChange ? 'cursor-grab touch-none' : ''} ${getAssigneeColor(task.assignee)} ${
+                    task.locked ? 'border-orange-500 ring-1 ring-orange-400' : 'border-current'
+                  } ${task.done ? 'opacity-40' : ''} ${offsetDays ? 'z-10 shadow-lg cursor-grabbing' : ''}`}
+                  style={{
+                    left: position.x + offsetDays * dayWidth - MARKER_SIZE / 2,
+                    top: position.y - MARKER_SIZE / 2,
+                    width: MARKER_SIZE,
+                    height: MARKER_SIZE,
+                  }}
+                  title={`${task.title} (${task.assignee}) — due ${dueDate}${task.locked ? ', locked' : ''}`}
+                >
+                  {task.locked && <Pin size={8} />}
+                  {offsetDays !== 0 && (
+                    <span className="absolute -top-5 left-1/2 -translate-x-1/2 px-1 text-xs bg-gray-900 text-white rounded whitespace-nowrap">
+                      {dueDate}
+                    </span>
+                  )}
+                </div>
+              );
+            }))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { calculateCountdown } from '../utils/countdown';
+import { canClientToggle, getAssigneeColor } from '../utils/assignee';
+import type { Task } from '../types';
+
+interface MonthCalendarProps {
+  tasks: Task[];
+  eventDate?: string;
+  readOnly?: boolean;
+  onToggleTask: (task: Task) => void;
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export function MonthCalendar({ tasks, eventDate, readOnly = false, onToggleTask }: MonthCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const countdown = calculateCountdown(eventDate);
+  const eventDay = eventDate?.substring(0, 10);
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+  const tasksByDay = new Map<string, Task[]>();
+  tasks.forEach(task => {
+    if (!task.due_date) return;
+    const key = task.due_date.substring(0, 10);
+    tasksByDay.set(key, [...(tasksByDay.get(key) || []), task]);
+  });
+
+  const days: Date[] = [];
+  const gridEnd = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+  for (let day = startOfWeek(month, { weekStartsOn: 1 }); day <= gridEnd; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const monthTasks = tasks.filter(task => task.due_date && isSameMonth(parseISO(task.due_date.substring(0, 10)), month));
+  const openThisMonth = monthTasks.filter(task => !task.done).length;
+
+  return (
+    <div className="block-card border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{format(month, 'MMMM yyyy')}</h2>
+          <p className="text-sm text-gray-600">
+            {openThisMonth} of {monthTasks.length} tasks still to do this month
+            {countdown && <> • {countdown.formatted}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setMonth(addMonths(month, -1))}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Previous month"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <button
+            onClick={() => setMonth(startOfMonth(new Date()))}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            This month
+          </button>
+          {eventDay && (
+            <button
+              onClick={() => setMonth(startOfMonth(parseISO(eventDay)))}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Event month
+            </button>
+          )}
+          <button
+            onClick={() => setMonth(addMonths(month, 1))}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Next month"
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-gray-200 text-sm">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="px-2 py-1 bg-gray-50 border-r border-b border-gray-200 text-xs font-medium text-gray-600">
+            {label}
+          </div>
+        ))}
+
+        {days.map(day => {
+          const key = format(day, 'yyyy-MM-dd');
+          const dayTasks = tasksByDay.get(key) || [];
+          const isEventDay = key === eventDay;
+
+          return (
+            <div
+              key={key}
+              className={`min-h-[96px] p-1 border-r border-b border-gray-200 ${
+                isSameMonth(day, month) ? 'bg-white' : 'bg-gray-50 text-gray-400'
+              } ${isEventDay ? 'ring-2 ring-inset ring-pink-400 bg-pink-50' : ''}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className={`text-xs font-medium ${isToday(day) ? 'px-1.5 rounded-full bg-blue-600 text-white' : ''}`}>
+                  {format(day, 'd')}
+                </span>
+                {isEventDay && (
+                  <span className="text-xs font-semibold text-pink-700" title={countdown?.formatted}>Event</span>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                {dayTasks.map(task => {
+                  const overdue = !task.done && key < todayKey;
+                  const canToggle = !readOnly && canClientToggle(task.assignee);
+                  return (
+                    <label
+                      key={task.id}
+                      className={`flex items-start gap-1 px-1 py-0.5 rounded text-xs ${
+                        overdue ? 'bg-red-100 text-red-800' : getAssigneeColor(task.assignee)
+                      } ${canToggle ? 'cursor-pointer' : ''}`}
+                      title={overdue ? `${task.title} (overdue)` : task.title}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={task.done}
+                        onChange={() => onToggleTask(task)}
+                        disabled={!canToggle}
+                        className="mt-0.5 w-3 h-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className={`line-clamp-2 ${task.done ? 'line-through opacity-60' : ''}`}>{task.title}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-100" /> Your tasks</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100" /> Joint tasks</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-100" /> Overdue</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded ring-2 ring-pink-400 bg-pink-50" /> Event day</span>
+      </div>
+    </div>
+  );
+}
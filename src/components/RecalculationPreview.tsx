@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { AlertCircle, ArrowRight, Lock, X } from 'lucide-react';
+import type { RecalculatedTask, RecalculationResult } from '../types';
+
+interface RecalculationPreviewProps {
+  preview: RecalculationResult;
+  applying: boolean;
+  // Left out for read-only staff, who can preview but not apply
+  onApply?: () => void;
+  onCancel: () => void;
+}
+
+function formatShortDate(date: string | null): string {
+  if (!date) return '—';
+  return new Date(`${date.substring(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function isChanged(task: RecalculatedTask): boolean {
+  return task.before !== task.after || isNewlyOverdue(task);
+}
+
+function isNewlyOverdue(task: RecalculatedTask): boolean {
+  return task.overdue_on_original_plan && !task.was_overdue_on_original_plan;
+}
+
+export function RecalculationPreview({ preview, applying, onApply, onCancel }: RecalculationPreviewProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const conflictTaskIds = new Set(preview.dependency_conflicts.map(conflict => conflict.task_id));
+
+  const newlyOverdue = preview.tasks.filter(isNewlyOverdue).length;
+  const skipped = preview.tasks.filter(task => task.skipped).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Preview recalculation</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {preview.updated} task dates will change • {newlyOverdue} newly overdue on original plan • {skipped} locked tasks skipped • scale factor {preview.scale_factor.toFixed(2)}
+              {preview.schedule_mode === 'weekly' && ` • weekly mode, ${preview.needs_review} tasks to review`}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          {preview.notes.length > 0 && (
+            <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+              <ul className="text-sm text-yellow-800 space-y-1">
+                {preview.notes.map(note => <li key={note}>{note}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            <span className="text-sm text-gray-700">Show unchanged tasks</span>
+          </label>
+
+          {preview.blocks.map(block => {
+            const tasks = preview.tasks.filter(task =>
+              task.block_id === block.id &&
+              (showUnchanged || isChanged(task) || task.skipped || conflictTaskIds.has(task.id))
+            );
+            const windowChanged =
+              block.before.start_date !== block.after.start_date || block.before.end_date !== block.after.end_date;
+
+            if (!tasks.length && !windowChanged && !showUnchanged) return null;
+
+            return (
+              <div key={block.id}>
+                <div className="flex items-baseline justify-between mb-2">
+                  <h4 className="font-semibold text-gray-900">{block.title}</h4>
+                  <div className={`text-xs ${windowChanged ? 'text-orange-700' : 'text-gray-500'}`}>
+                    {formatShortDate(block.before.start_date)} – {formatShortDate(block.before.end_date)}
+                    {windowChanged && (
+                      <>
+                        {' '}<ArrowRight size={12} className="inline" />{' '}
+                        {formatShortDate(block.after.start_date)} – {formatShortDate(block.after.end_date)}
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {tasks.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2 font-medium">Task</th>
+                        <th className="py-2 font-medium w-32">Current due</th>
+                        <th className="py-2 w-6"></th>
+                        <th className="py-2 font-medium w-32">Proposed due</th>
+                        <th className="py-2 font-medium w-40"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tasks.map(task => (
+                        <tr key={task.id} className="border-b border-gray-100">
+                          <td className="py-2 pr-4 text-gray-900">{task.title}</td>
+                          <td className="py-2 text-gray-600">{formatShortDate(task.before)}</td>
+                          <td className="py-2 text-gray-400"><ArrowRight size={14} /></td>
+                          <td className={`py-2 ${task.before !== task.after ? 'font-medium text-blue-700' : 'text-gray-600'}`}>
+                            {formatShortDate(task.after)}
+                            {task.start_after && (
+                              <span className="block text-xs text-gray-500">Starts {formatShortDate(task.start_after)}</span>
+                            )}
+                            {task.week_offset !== null && (
+                              <span className="block text-xs text-gray-500">Week {task.week_offset}</span>
+                            )}
+                          </td>
+                          <td className="py-2 space-x-1">
+                            {task.skipped && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">
+                                <Lock size={10} />
+                                Locked, skipped
+                              </span>
+                            )}
+                            {isNewlyOverdue(task) && (
+                              <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">
+                                Overdue on original plan
+                              </span>
+                            )}
+                            {conflictTaskIds.has(task.id) && (
+                              <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">
+                                Dependency conflict
+                              </span>
+                            )}
+                            {task.needs_review && (
+                              <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs rounded-full">
+                                Needs review
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {onApply ? 'Cancel' : 'Close'}
+          </button>
+          {onApply && (
+            <button
+              onClick={onApply}
+              disabled={applying}
+              className="px-4 py-2 text-white bg-orange-600 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {applying ? 'Applying...' : 'Apply recalculation'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
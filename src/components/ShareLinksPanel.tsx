@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Copy, ExternalLink, Link2 } from 'lucide-react';
+import type { NewShareLink } from '../api/shareLinks';
+import type { ShareLink } from '../types';
+
+interface ShareLinksPanelProps {
+  links: ShareLink[];
+  editable: boolean;
+  creating: boolean;
+  onCreate: (link: NewShareLink) => void;
+  onRevoke: (link: ShareLink) => void;
+}
+
+const EXPIRY_OPTIONS = [30, 90, 180, 365];
+
+function clientUrl(link: ShareLink): string {
+  return `${window.location.origin}/s/${link.short_code}`;
+}
+
+function linkStatus(link: ShareLink): { label: string; className: string } {
+  if (link.revoked_at) return { label: 'Revoked', className: 'bg-gray-200 text-gray-700' };
+  if (new Date(link.expires_at) <= new Date()) return { label: 'Expired', className: 'bg-red-100 text-red-700' };
+  return { label: 'Active', className: 'bg-green-100 text-green-700' };
+}
+
+export function ShareLinksPanel({ links, editable, creating, onCreate, onRevoke }: ShareLinksPanelProps) {
+  const [label, setLabel] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [readOnly, setReadOnly] = useState(false);
+
+  function handleCreate() {
+    onCreate({
+      label: label.trim() || null,
+      displayName: displayName.trim() || null,
+      email: email.trim() || null,
+      expiresInDays,
+      readOnly,
+    });
+    setLabel('');
+    setDisplayName('');
+    setEmail('');
+    setReadOnly(false);
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Client Links</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Give each person their own link so it can be revoked without affecting anyone else. Their name is
+        recorded on the tasks they check off; if you leave it blank, they are asked on their first visit.
+      </p>
+
+      {editable && (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Who is this for? e.g. Bride"
+            maxLength={80}
+            className="flex-1 min-w-[200px] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Their name (optional)"
+            maxLength={80}
+            className="min-w-[160px] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Their email (optional)"
+            className="min-w-[160px] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {EXPIRY_OPTIONS.map(days => (
+              <option key={days} value={days}>Expires in {days} days</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={readOnly}
+              onChange={(e) => setReadOnly(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            View only
+          </label>
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Link2 size={18} />
+            {creating ? 'Creating...' : 'Create Link'}
+          </button>
+        </div>
+      )}
+
+      {links.length === 0 ? (
+        <p className="text-sm text-gray-500">No client links yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {links.map(link => {
+            const status = linkStatus(link);
+            const active = status.label === 'Active';
+            return (
+              <li key={link.id} className={`p-3 rounded-lg border ${active ? 'bg-blue-50 border-blue-200' : 'bg-gray-50 border-gray-200'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">{link.label || 'Unnamed link'}</span>
+                  <span className="text-sm text-gray-600">
+                    {link.display_name ?? 'Name not set yet'}
+                    {link.email && <> &lt;{link.email}&gt;</>}
+                  </span>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${status.className}`}>{status.label}</span>
+                  {link.read_only && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">View only</span>
+                  )}
+                  <div className="flex-1" />
+                  {active && (
+                    <>
+                      <button
+                        onClick={() => {
+                          navigator.clipboard.writeText(clientUrl(link));
+                          alert('Link copied to clipboard!');
+                        }}
+                        className="p-2 text-gray-600 hover:bg-white rounded-lg transition-colors"
+                        title="Copy link"
+                      >
+                        <Copy size={16} />
+                      </button>
+                      <a
+                        href={clientUrl(link)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-2 text-gray-600 hover:bg-white rounded-lg transition-colors"
+                        title="Open client view"
+                      >
+                        <ExternalLink size={16} />
+                      </a>
+                      {editable && (
+                        <button
+                          onClick={() => onRevoke(link)}
+                          className="px-3 py-1 text-sm text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+                {active && (
+                  <p className="text-sm text-blue-900 font-mono break-all mt-1">{clientUrl(link)}</p>
+                )}
+                <div className="flex flex-wrap gap-x-4 mt-1 text-xs text-gray-600">
+                  <span>Created {new Date(link.created_at).toLocaleDateString()}</span>
+                  {link.revoked_at ? (
+                    <span>Revoked {new Date(link.revoked_at).toLocaleDateString()}</span>
+                  ) : (
+                    <span>Expires {new Date(link.expires_at).toLocaleDateString()}</span>
+                  )}
+                  <span>
+                    {link.access_count
+                      ? `Opened ${link.access_count} time${link.access_count !== 1 ? 's' : ''}, last ${new Date(link.last_accessed_at!).toLocaleString()}`
+                      : 'Never opened'}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
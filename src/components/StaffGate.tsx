@@ -0,0 +1,143 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { StaffContext } from '../lib/staff';
+import { BRAND } from '../config/brand';
+import type { StaffMember } from '../types';
+
+interface StaffGateProps {
+  children: ReactNode;
+}
+
+export function StaffGate({ children }: StaffGateProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [staff, setStaff] = useState<StaffMember | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      if (!data.session) setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!session) {
+      setStaff(null);
+      return;
+    }
+    loadStaff(session.user.id);
+  }, [session]);
+
+  async function loadStaff(userId: string) {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('staff_members')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setStaff(data);
+    } catch (error) {
+      console.error('Error loading staff member:', error);
+      setStaff(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSignIn(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSigningIn(true);
+      setError(null);
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      setPassword('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to sign in');
+    } finally {
+      setSigningIn(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  if (session && staff) {
+    return <StaffContext.Provider value={staff}>{children}</StaffContext.Provider>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 w-full max-w-sm">
+        <img src={BRAND.logoLight} alt={BRAND.name} className="h-8 w-auto mb-6" />
+
+        {session ? (
+          <>
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">No staff access</h1>
+            <p className="text-sm text-gray-600 mb-6">
+              {session.user.email} is not a staff account. Ask an owner to add you.
+            </p>
+            <button
+              onClick={() => supabase.auth.signOut()}
+              className="w-full px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Sign out
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSignIn} className="space-y-4">
+            <h1 className="text-xl font-semibold text-gray-900">Staff sign in</h1>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Email</span>
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Password</span>
+              <input
+                type="password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            {error && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+            )}
+            <button
+              type="submit"
+              disabled={signingIn}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {signingIn ? 'Signing in...' : 'Sign in'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { LogOut } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useStaff } from '../lib/staff';
+
+const ROLE_LABELS = {
+  owner: 'Owner',
+  planner: 'Planner',
+  read_only: 'Read-only',
+};
+
+export function StaffMenu() {
+  const staff = useStaff();
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="text-gray-700">{staff.display_name || staff.email}</span>
+      <span className="px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-full">
+        {ROLE_LABELS[staff.role]}
+      </span>
+      <button
+        onClick={() => supabase.auth.signOut()}
+        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Sign out"
+      >
+        <LogOut size={16} />
+      </button>
+    </div>
+  );
+}
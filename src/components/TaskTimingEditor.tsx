@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { TaskUpdate } from '../api/tasks';
+import type { Task } from '../types';
+
+interface TaskTimingEditorProps {
+  task: Task;
+  saving: boolean;
+  error: string | null;
+  onSave: (updates: TaskUpdate) => void;
+  onClose: () => void;
+}
+
+function parseDays(value: string): number | null {
+  return value === '' ? null : Math.max(Math.round(Number(value)), 0);
+}
+
+export function TaskTimingEditor({ task, saving, error, onSave, onClose }: TaskTimingEditorProps) {
+  const [startDate, setStartDate] = useState(task.start_date?.substring(0, 10) ?? '');
+  const [durationDays, setDurationDays] = useState(task.duration_days?.toString() ?? '');
+  const [minLeadDays, setMinLeadDays] = useState(task.min_lead_days_before_event?.toString() ?? '');
+
+  function handleSave() {
+    onSave({
+      start_date: startDate || null,
+      duration_days: parseDays(durationDays),
+      min_lead_days_before_event: parseDays(minLeadDays),
+    });
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Timing</h3>
+            <p className="text-sm text-gray-600 mt-1">{task.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Start date</span>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Duration (days)</span>
+            <input
+              type="number"
+              min={0}
+              value={durationDays}
+              onChange={(e) => setDurationDays(e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <span className="text-xs text-gray-500">Recalculation sets the start date this many days before the due date.</span>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Supplier lead time (days before the event)</span>
+            <input
+              type="number"
+              min={0}
+              value={minLeadDays}
+              onChange={(e) => setMinLeadDays(e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <span className="text-xs text-gray-500">The task is never scheduled closer to the event than this.</span>
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save timing'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
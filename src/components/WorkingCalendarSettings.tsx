@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import holidaysData from '../assets/holidays.json';
+import type { HolidaySets } from '../utils/scheduling';
+import type { WorkingCalendar } from '../types';
+
+const holidaySets = holidaysData as HolidaySets;
+
+const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+const DEFAULT_CALENDAR: WorkingCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  blackoutDates: [],
+  holidaySets: [],
+};
+
+interface WorkingCalendarSettingsProps {
+  value?: WorkingCalendar | null;
+  editable: boolean;
+  onChange: (calendar: WorkingCalendar | null) => void;
+}
+
+export function WorkingCalendarSettings({ value, editable, onChange }: WorkingCalendarSettingsProps) {
+  const [newBlackoutDate, setNewBlackoutDate] = useState('');
+
+  const workingDays = value?.workingDays ?? DEFAULT_CALENDAR.workingDays!;
+  const blackoutDates = value?.blackoutDates ?? [];
+  const selectedHolidaySets = value?.holidaySets ?? [];
+
+  function toggleWorkingDay(day: number) {
+    const next = workingDays.includes(day)
+      ? workingDays.filter(d => d !== day)
+      : [...workingDays, day].sort();
+    if (next.length === 0) return;
+    onChange({ ...value, workingDays: next });
+  }
+
+  function toggleHolidaySet(key: string) {
+    const next = selectedHolidaySets.includes(key)
+      ? selectedHolidaySets.filter(k => k !== key)
+      : [...selectedHolidaySets, key];
+    onChange({ ...value, holidaySets: next });
+  }
+
+  function addBlackoutDate() {
+    if (!newBlackoutDate || blackoutDates.includes(newBlackoutDate)) return;
+    onChange({ ...value, blackoutDates: [...blackoutDates, newBlackoutDate].sort() });
+    setNewBlackoutDate('');
+  }
+
+  function removeBlackoutDate(date: string) {
+    onChange({ ...value, blackoutDates: blackoutDates.filter(d => d !== date) });
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_CALENDAR : null)}
+          disabled={!editable}
+          className="w-4 h-4 text-blue-600 rounded"
+        />
+        <span className="text-sm text-gray-700">Only schedule due dates on working days</span>
+      </label>
+
+      {value && (
+        <div className="ml-6 space-y-4">
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-2">Working days</p>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map(({ day, label }) => (
+                <button
+                  key={day}
+                  onClick={() => toggleWorkingDay(day)}
+                  disabled={!editable}
+                  className={`px-3 py-1 text-sm rounded-lg border transition-colors disabled:cursor-default ${
+                    workingDays.includes(day)
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-600 border-gray-300 enabled:hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-2">Holidays</p>
+            <div className="space-y-2">
+              {Object.entries(holidaySets).map(([key, set]) => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedHolidaySets.includes(key)}
+                    onChange={() => toggleHolidaySet(key)}
+                    disabled={!editable}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  <span className="text-sm text-gray-700">{set.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-2">Blackout dates</p>
+            {editable && (
+              <div className="flex items-center gap-2 mb-2">
+                <input
+                  type="date"
+                  value={newBlackoutDate}
+                  onChange={(e) => setNewBlackoutDate(e.target.value)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  onClick={addBlackoutDate}
+                  disabled={!newBlackoutDate}
+                  className="px-3 py-1 text-sm text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add
+                </button>
+              </div>
+            )}
+            {blackoutDates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {blackoutDates.map(date => (
+                  <span key={date} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                    {date}
+                    {editable && (
+                      <button onClick={() => removeBlackoutDate(date)} className="text-gray-500 hover:text-gray-700">
+                        <X size={12} />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import type { StaffMember, StaffRole } from '../types';
+
+export const StaffContext = createContext<StaffMember | null>(null);
+
+export function useStaff(): StaffMember {
+  const staff = useContext(StaffContext);
+  if (!staff) {
+    throw new Error('useStaff must be used inside StaffGate');
+  }
+  return staff;
+}
+
+export function canEdit(role: StaffRole): boolean {
+  return role === 'owner' || role === 'planner';
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+import { addDays, endOfWeek, format, parseISO, subDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { canEdit, useStaff } from '../lib/staff';
+import { BRAND } from '../config/brand';
+import { StaffMenu } from '../components/StaffMenu';
+import { getAssigneeColor } from '../utils/assignee';
+import type { Event, Task } from '../types';
+
+type AgendaWindow = 'week' | '14' | '30';
+
+interface AgendaTask extends Task {
+  timeline?: { id: string; event?: Event };
+}
+
+const WINDOWS: { key: AgendaWindow; label: string }[] = [
+  { key: 'week', label: 'This week' },
+  { key: '14', label: 'Next 14 days' },
+  { key: '30', label: 'Next 30 days' },
+];
+
+// Older overdue tasks usually belong to past events nobody will close out; the
+// timeline itself still lists them.
+const OVERDUE_LOOKBACK_DAYS = 60;
+
+function windowEnd(range: AgendaWindow): string {
+  const today = new Date();
+  const end = range === 'week' ? endOfWeek(today, { weekStartsOn: 1 }) : addDays(today, Number(range));
+  return format(end, 'yyyy-MM-dd');
+}
+
+export function Agenda() {
+  const staff = useStaff();
+  const [tasks, setTasks] = useState<AgendaTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<AgendaWindow>('week');
+  const [savingTaskId, setSavingTaskId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAgenda(range);
+  }, [range]);
+
+  async function loadAgenda(selected: AgendaWindow) {
+    try {
+      setLoading(true);
+      // Recently overdue tasks are included: they are still on the planner's to-do list.
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(`
+          *,
+          timeline:timelines(id, event:events(*))
+        `)
+        .eq('done', false)
+        .in('assignee', ['js', 'joint'])
+        .not('due_date', 'is', null)
+        .gte('due_date', format(subDays(new Date(), OVERDUE_LOOKBACK_DAYS), 'yyyy-MM-dd'))
+        .lte('due_date', windowEnd(selected))
+        .order('due_date', { ascending: true })
+        .order('order', { ascending: true });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error loading agenda:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleTaskComplete(task: AgendaTask) {
+    try {
+      setSavingTaskId(task.id);
+      const { error } = await supabase
+        .from('tasks')
+        .update({
+          done: true,
+          done_at: new Date().toISOString(),
+          done_by: staff.email,
+        })
+        .eq('id', task.id);
+
+      if (error) throw error;
+
+      await supabase.from('audit_entries').insert({
+        timeline_id: task.timeline_id,
+        task_id: task.id,
+        action: 'check',
+        actor: staff.email,
+        changes: { done: { from: false, to: true } },
+      });
+
+      setTasks(tasks.filter(t => t.id !== task.id));
+    } catch (error) {
+      console.error('Error updating task:', error);
+      alert('Failed to update task');
+    } finally {
+      setSavingTaskId(null);
+    }
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const overdue = tasks.filter(task => task.due_date!.substring(0, 10) < today);
+  const days = new Map<string, AgendaTask[]>();
+  tasks
+    .filter(task => task.due_date!.substring(0, 10) >= today)
+    .forEach(task => {
+      const key = task.due_date!.substring(0, 10);
+      days.set(key, [...(days.get(key) || []), task]);
+    });
+
+  const groups = [
+    ...(overdue.length > 0 ? [{ key: 'overdue', label: `Overdue (last ${OVERDUE_LOOKBACK_DAYS} days)`, tasks: overdue }] : []),
+    ...Array.from(days.entries()).map(([key, dayTasks]) => ({
+      key,
+      label: key === today ? `Today, ${format(parseISO(key), 'MMMM d')}` : format(parseISO(key), 'EEEE, MMMM d'),
+      tasks: dayTasks,
+    })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="app-header bg-white border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14">
+            <a href="/" className="brand flex items-center">
+              <img
+                id="brand-logo"
+                src={BRAND.logoLight}
+                alt={BRAND.name}
+                className="h-7 w-auto"
+                style={{ imageRendering: '-webkit-optimize-contrast' }}
+              />
+            </a>
+            <StaffMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <a href="/" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft size={16} />
+          All timelines
+        </a>
+
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Agenda</h1>
+            <p className="text-gray-600 mt-1">Open JustSeventy and joint tasks across all timelines</p>
+          </div>
+          <div className="flex gap-2">
+            {WINDOWS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setRange(option.key)}
+                className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
+                  range === option.key
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-500">Loading agenda...</div>
+        ) : groups.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Nothing due</h2>
+            <p className="text-gray-500">No open tasks are due in this window</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <div key={group.key}>
+                <h2 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${
+                  group.key === 'overdue' ? 'text-red-700' : 'text-gray-700'
+                }`}>
+                  {group.label} <span className="font-normal text-gray-500">({group.tasks.length})</span>
+                </h2>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+                  {group.tasks.map(task => (
+                    <div key={task.id} className="flex items-center gap-3 p-4">
+                      <input
+                        type="checkbox"
+                        checked={false}
+                        onChange={() => handleTaskComplete(task)}
+                        disabled={!canEdit(staff.role) || savingTaskId === task.id}
+                        className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-gray-900">{task.title}</div>
+                        <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-700 font-medium rounded-full">
+                            {task.timeline?.event?.code}
+                          </span>
+                          <span className="truncate">{task.timeline?.event?.title}</span>
+                          {group.key === 'overdue' && (
+                            <span className="text-red-700">
+                              Due: {new Date(task.due_date!).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <span className={`px-2 py-1 text-xs font-medium rounded ${getAssigneeColor(task.assignee)}`}>
+                        {task.assignee}
+                      </span>
+                      <a
+                        href={`/timeline/${task.timeline_id}`}
+                        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Open timeline"
+                      >
+                        <ExternalLink size={16} />
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import { useEffect, useState } from 'react';
-import { Calendar, MapPin, ChevronDown, ChevronUp, Eye, EyeOff, Printer, Filter } from 'lucide-react';
+import { Calendar, CalendarDays, MapPin, ChevronDown, ChevronUp, Eye, EyeOff, Printer, Filter, Download, FileText, List } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { downloadTimelineExport } from '../api/exports';
 import { ProgressRing } from '../components/ProgressRing';
+import { MonthCalendar } from '../components/MonthCalendar';
+import { CompletedBy } from '../components/CompletedBy';
+import { ClientIdentityPrompt } from '../components/ClientIdentityPrompt';
 import { calculateBlockProgress, calculateTimelineProgress, calculateProgressByAssignee } from '../utils/progress';
+import { canClientToggle, getAssigneeColor } from '../utils/assignee';
 import { BRAND, detectBackgroundBrightness } from '../config/brand';
 import themes, { type ThemeKey } from '../lib/themes';
 import type { Timeline, Task } from '../types';
@@ -13,11 +18,17 @@ export function ClientView() {
   const [error, setError] = useState<string>('');
   const [expandedBlocks, setExpandedBlocks] = useState<Set<string>>(new Set());
   const [showBackground, setShowBackground] = useState(true);
-  const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set(['client', 'js', 'joint']));
+  const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set(['client', 'joint']));
   const [logoSrc, setLogoSrc] = useState(BRAND.logoDark);
   const [showAddTask, setShowAddTask] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDueDate, setNewTaskDueDate] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [identitySkipped, setIdentitySkipped] = useState(false);
+  const [savingIdentity, setSavingIdentity] = useState(false);
+  const [identityError, setIdentityError] = useState<string | null>(null);
+  const readOnly = timeline?.share_link?.read_only ?? false;
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -34,40 +45,16 @@ export function ClientView() {
 
   async function loadTimelineByToken(token: string) {
     try {
-      const { data: shareLink, error: shareLinkError } = await supabase
-        .from('share_links')
-        .select('timeline_id, expires_at')
-        .eq('token', token)
-        .maybeSingle();
+      // The token is checked in the database; it only opens its own timeline.
+      const { data: result, error: timelineError } = await supabase.rpc('client_timeline', { p_token: token });
 
-      if (shareLinkError) throw shareLinkError;
-
-      if (!shareLink) {
-        setError('Invalid or expired link');
+      if (timelineError) {
+        setError(timelineError.message);
         setLoading(false);
         return;
       }
 
-      if (new Date(shareLink.expires_at) < new Date()) {
-        setError('This link has expired');
-        setLoading(false);
-        return;
-      }
-
-      const { data, error: timelineError } = await supabase
-        .from('timelines')
-        .select(`
-          *,
-          event:events(*),
-          blocks(
-            *,
-            tasks(*)
-          )
-        `)
-        .eq('id', shareLink.timeline_id)
-        .single();
-
-      if (timelineError) throw timelineError;
+      const data = result as Timeline;
 
       if (data.blocks) {
         data.blocks.sort((a, b) => a.order - b.order);
@@ -95,35 +82,25 @@ export function ClientView() {
   }
 
   async function handleTaskToggle(task: Task) {
-    if (!timeline || task.assignee === 'js') return;
+    if (!timeline || readOnly || !canClientToggle(task.assignee)) return;
 
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          done: !task.done,
-          done_at: !task.done ? new Date().toISOString() : null,
-          done_by: !task.done ? 'client' : null,
-        })
-        .eq('id', task.id);
+      const token = new URLSearchParams(window.location.search).get('token');
+      const { data: updated, error } = await supabase.rpc('client_set_task_done', {
+        p_token: token,
+        p_task_id: task.id,
+        p_done: !task.done,
+      });
 
       if (error) throw error;
 
-      await supabase.from('audit_entries').insert({
-        timeline_id: timeline.id,
-        task_id: task.id,
-        action: !task.done ? 'check' : 'uncheck',
-        actor: 'client',
-        changes: { done: { from: task.done, to: !task.done } },
-      });
-
       if (timeline.blocks) {
         setTimeline({
           ...timeline,
           blocks: timeline.blocks.map((block) => ({
             ...block,
             tasks: block.tasks?.map((t) =>
-              t.id === task.id ? { ...t, done: !t.done } : t
+              t.id === task.id ? { ...t, ...(updated as Task) } : t
             ),
           })),
         });
@@ -134,6 +111,32 @@ export function ClientView() {
     }
   }
 
+  async function handleDownload(file: 'export.pdf' | 'export.docx') {
+    if (!timeline) return;
+
+    setExporting(true);
+    try {
+      await downloadTimelineExport(
+        timeline.id,
+        file,
+        { mode: 'full', background: String(showBackground), token: new URLSearchParams(window.location.search).get('token') || '' },
+        `${timeline.event?.code || 'timeline'}.${file === 'export.pdf' ? 'pdf' : 'docx'}`
+      );
+    } catch (error) {
+      console.error('Error downloading timeline:', error);
+      alert('Failed to download your timeline. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function calendarFeedUrl() {
+    const token = new URLSearchParams(window.location.search).get('token');
+    const feedUrl = new URL(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines-calendar/${token}.ics`);
+    feedUrl.searchParams.set('assignee', 'client,joint');
+    return feedUrl.toString().replace(/^https?:/, 'webcal:');
+  }
+
   function toggleBlock(blockId: string) {
     setExpandedBlocks((prev) => {
       const next = new Set(prev);
@@ -158,6 +161,34 @@ export function ClientView() {
     });
   }
 
+  async function handleSaveIdentity(displayName: string, email: string | null) {
+    if (!timeline?.share_link) return;
+
+    setSavingIdentity(true);
+    setIdentityError(null);
+    try {
+      const token = new URLSearchParams(window.location.search).get('token');
+      const { data, error } = await supabase.rpc('client_set_identity', {
+        p_token: token,
+        p_display_name: displayName,
+        p_email: email,
+      });
+
+      if (error) throw error;
+
+      const identity = data as { display_name: string; email: string | null };
+      setTimeline({
+        ...timeline,
+        share_link: { ...timeline.share_link, ...identity },
+      });
+    } catch (error) {
+      console.error('Error saving name:', error);
+      setIdentityError(error instanceof Error ? error.message : 'Failed to save your name');
+    } finally {
+      setSavingIdentity(false);
+    }
+  }
+
   async function handleAddGeneralTask() {
     if (!timeline || !newTaskTitle.trim()) return;
 
@@ -165,21 +196,12 @@ export function ClientView() {
     if (!generalBlock) return;
 
     try {
-      const maxOrder = Math.max(0, ...(generalBlock.tasks?.map(t => t.order) || [0]));
-
-      const { error } = await supabase
-        .from('tasks')
-        .insert({
-          timeline_id: timeline.id,
-          block_id: generalBlock.id,
-          title: newTaskTitle.trim(),
-          assignee: 'client',
-          weight: 1,
-          is_skeleton: false,
-          done: false,
-          due_date: newTaskDueDate || null,
-          order: maxOrder + 1,
-        });
+      const token = new URLSearchParams(window.location.search).get('token');
+      const { error } = await supabase.rpc('client_add_general_task', {
+        p_token: token,
+        p_title: newTaskTitle.trim(),
+        p_due_date: newTaskDueDate || null,
+      });
 
       if (error) throw error;
 
@@ -187,7 +209,6 @@ export function ClientView() {
       setNewTaskDueDate('');
       setShowAddTask(false);
 
-      const token = new URLSearchParams(window.location.search).get('token');
       if (token) {
         await loadTimelineByToken(token);
       }
@@ -197,19 +218,6 @@ export function ClientView() {
     }
   }
 
-  function getAssigneeColor(assignee: string): string {
-    switch (assignee) {
-      case 'client':
-        return 'bg-blue-100 text-blue-700';
-      case 'js':
-        return 'bg-purple-100 text-purple-700';
-      case 'joint':
-        return 'bg-green-100 text-green-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
-    }
-  }
-
   function isTaskVisible(task: Task): boolean {
     return activeFilters.has(task.assignee);
   }
@@ -252,6 +260,15 @@ export function ClientView() {
         </>
       )}
 
+      {timeline.share_link && !timeline.share_link.display_name && !readOnly && !identitySkipped && (
+        <ClientIdentityPrompt
+          saving={savingIdentity}
+          error={identityError}
+          onSave={handleSaveIdentity}
+          onSkip={() => setIdentitySkipped(true)}
+        />
+      )}
+
       <div className="timeline-content">
         <header className="client-header flex flex-col items-center py-6 px-4">
           <img
@@ -265,6 +282,29 @@ export function ClientView() {
 
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex justify-end gap-3 mb-4 print:hidden">
+            <button
+              onClick={() => handleDownload('export.pdf')}
+              disabled={exporting}
+              className="flex items-center gap-2 px-4 py-2 bg-white/90 backdrop-blur text-gray-700 rounded-lg hover:bg-white transition-colors shadow-sm border border-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={18} />
+              {exporting ? 'Preparing...' : 'Download PDF'}
+            </button>
+            <button
+              onClick={() => handleDownload('export.docx')}
+              disabled={exporting}
+              className="flex items-center gap-2 px-4 py-2 bg-white/90 backdrop-blur text-gray-700 rounded-lg hover:bg-white transition-colors shadow-sm border border-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileText size={18} />
+              Download Word
+            </button>
+            <a
+              href={calendarFeedUrl()}
+              className="flex items-center gap-2 px-4 py-2 bg-white/90 backdrop-blur text-gray-700 rounded-lg hover:bg-white transition-colors shadow-sm border border-gray-200"
+            >
+              <Calendar size={18} />
+              Subscribe to Calendar
+            </a>
             <button
               onClick={() => window.print()}
               className="flex items-center gap-2 px-4 py-2 bg-white/90 backdrop-blur text-gray-700 rounded-lg hover:bg-white transition-colors shadow-sm border border-gray-200"
@@ -316,7 +356,7 @@ export function ClientView() {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6 print-kpis">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6 print-kpis">
               <div className="bg-gray-50 rounded-lg p-4 flex flex-col items-center kpi">
                 <ProgressRing percentage={progress?.percentage || 0} size={60} strokeWidth={6} />
                 <div className="text-sm text-gray-600 text-center font-medium mt-2">
@@ -337,16 +377,6 @@ export function ClientView() {
                 </div>
               </div>
 
-              <div className="bg-purple-50 rounded-lg p-4 flex flex-col items-center kpi">
-                <ProgressRing percentage={progressByAssignee.js.percentage} size={60} strokeWidth={6} color="#a855f7" />
-                <div className="text-sm text-purple-700 text-center font-medium mt-2">
-                  JustSeventy Tasks
-                </div>
-                <div className="text-xs text-purple-600 mt-1">
-                  {progressByAssignee.js.completedTasks} / {progressByAssignee.js.totalTasks} tasks
-                </div>
-              </div>
-
               <div className="bg-green-50 rounded-lg p-4 flex flex-col items-center kpi">
                 <ProgressRing percentage={progressByAssignee.joint.percentage} size={60} strokeWidth={6} color="#10b981" />
                 <div className="text-sm text-green-700 text-center font-medium mt-2">
@@ -382,16 +412,6 @@ export function ClientView() {
                 >
                   Client
                 </button>
-                <button
-                  onClick={() => toggleFilter('js')}
-                  className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
-                    activeFilters.has('js')
-                      ? 'bg-purple-100 text-purple-700 border-2 border-purple-300'
-                      : 'bg-gray-100 text-gray-400 border-2 border-transparent'
-                  }`}
-                >
-                  JustSeventy
-                </button>
                 <button
                   onClick={() => toggleFilter('joint')}
                   className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
@@ -407,203 +427,243 @@ export function ClientView() {
 
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <p className="text-sm text-blue-800">
-                <strong>Note:</strong> You can check off tasks assigned to you (marked as "client" or "both").
-                Tasks marked "js\" are managed by JustSeventy.
+                {readOnly ? (
+                  <><strong>Note:</strong> This link is view only, so tasks cannot be checked off here.</>
+                ) : (
+                  <>
+                    <strong>Note:</strong> You can check off tasks assigned to you (marked as "client" or "both").
+                    {timeline.share_link?.display_name && (
+                      <> Tasks you check off are recorded as done by {timeline.share_link.display_name}.</>
+                    )}
+                  </>
+                )}
               </p>
             </div>
           </div>
 
-          <div className="space-y-4 print-columns">
-            {timeline.blocks?.filter(b => !b.is_general).map((block) => {
-              const blockProgress = block.tasks ? calculateBlockProgress(block.tasks) : null;
-              const isExpanded = expandedBlocks.has(block.id);
-
-              return (
-                <div key={block.id} className="block-card border border-gray-200 print-block">
-                  <h2 className="block-title hidden print:block">{block.title}</h2>
-                  <button
-                    onClick={() => toggleBlock(block.id)}
-                    className="w-full flex items-center justify-between p-6 text-left hover:bg-gray-50/50 transition-colors print:hidden"
-                  >
-                    <div className="flex items-center gap-4 flex-1">
-                      {blockProgress && <ProgressRing percentage={blockProgress.percentage} size={70} />}
-                      <div>
-                        <h3 className="text-xl font-semibold text-gray-900">{block.title}</h3>
-                        {blockProgress && (
-                          <p className="text-sm text-gray-600 mt-1">
-                            {blockProgress.completedTasks} of {blockProgress.totalTasks} tasks complete
-                          </p>
-                        )}
+          <div className="flex items-center gap-2 mb-4 print:hidden">
+            <button
+              onClick={() => setView('list')}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                view === 'list' ? 'bg-white text-gray-900 shadow' : 'bg-white/60 text-gray-600 hover:bg-white'
+              }`}
+            >
+              <List size={16} />
+              List
+            </button>
+            <button
+              onClick={() => setView('calendar')}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                view === 'calendar' ? 'bg-white text-gray-900 shadow' : 'bg-white/60 text-gray-600 hover:bg-white'
+              }`}
+            >
+              <CalendarDays size={16} />
+              Calendar
+            </button>
+          </div>
+
+          {view === 'calendar' ? (
+            <MonthCalendar
+              tasks={allTasks.filter(task => canClientToggle(task.assignee))}
+              eventDate={timeline.event?.date}
+              readOnly={readOnly}
+              onToggleTask={handleTaskToggle}
+            />
+          ) : (
+            <div className="space-y-4 print-columns">
+              {timeline.blocks?.filter(b => !b.is_general).map((block) => {
+                const blockProgress = block.tasks ? calculateBlockProgress(block.tasks) : null;
+                const isExpanded = expandedBlocks.has(block.id);
+
+                return (
+                  <div key={block.id} className="block-card border border-gray-200 print-block">
+                    <h2 className="block-title hidden print:block">{block.title}</h2>
+                    <button
+                      onClick={() => toggleBlock(block.id)}
+                      className="w-full flex items-center justify-between p-6 text-left hover:bg-gray-50/50 transition-colors print:hidden"
+                    >
+                      <div className="flex items-center gap-4 flex-1">
+                        {blockProgress && <ProgressRing percentage={blockProgress.percentage} size={70} />}
+                        <div>
+                          <h3 className="text-xl font-semibold text-gray-900">{block.title}</h3>
+                          {blockProgress && (
+                            <p className="text-sm text-gray-600 mt-1">
+                              {blockProgress.completedTasks} of {blockProgress.totalTasks} tasks complete
+                            </p>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                    {isExpanded ? <ChevronUp size={24} /> : <ChevronDown size={24} />}
-                  </button>
-
-                  {isExpanded && block.tasks && (
-                    <div className="px-6 pb-6 space-y-3">
-                      {block.tasks.filter(isTaskVisible).map((task) => {
-                        const canToggle = task.assignee === 'client' || task.assignee === 'joint';
-
-                        return (
-                          <div
-                            key={task.id}
-                            className="task-card flex items-start gap-4 p-4 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors"
-                          >
-                            <input
-                              type="checkbox"
-                              checked={task.done}
-                              onChange={() => handleTaskToggle(task)}
-                              disabled={!canToggle}
-                              className={`mt-1 w-6 h-6 rounded border-gray-300 text-blue-600 focus:ring-blue-500 print:w-4 print:h-4 ${
-                                canToggle ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'
-                              }`}
-                            />
-                            <div className="flex-1">
-                              <p className={`task-title text-gray-900 font-medium ${task.done ? 'line-through opacity-60' : ''}`}>
-                                {task.title}
-                              </p>
-                              <div className="task-meta flex items-center gap-2 mt-2">
-                                <span className={`px-2 py-1 text-xs font-medium rounded ${getAssigneeColor(task.assignee)}`}>
-                                  {task.assignee}
-                                </span>
-                                {task.is_skeleton && (
-                                  <span className="px-2 py-1 text-xs font-medium rounded bg-orange-100 text-orange-700">
-                                    Key Task
+                      {isExpanded ? <ChevronUp size={24} /> : <ChevronDown size={24} />}
+                    </button>
+
+                    {isExpanded && block.tasks && (
+                      <div className="px-6 pb-6 space-y-3">
+                        {block.tasks.filter(isTaskVisible).map((task) => {
+                          const canToggle = !readOnly && canClientToggle(task.assignee);
+
+                          return (
+                            <div
+                              key={task.id}
+                              className="task-card flex items-start gap-4 p-4 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={task.done}
+                                onChange={() => handleTaskToggle(task)}
+                                disabled={!canToggle}
+                                className={`mt-1 w-6 h-6 rounded border-gray-300 text-blue-600 focus:ring-blue-500 print:w-4 print:h-4 ${
+                                  canToggle ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'
+                                }`}
+                              />
+                              <div className="flex-1">
+                                <p className={`task-title text-gray-900 font-medium ${task.done ? 'line-through opacity-60' : ''}`}>
+                                  {task.title}
+                                </p>
+                                <div className="task-meta flex items-center gap-2 mt-2">
+                                  <span className={`px-2 py-1 text-xs font-medium rounded ${getAssigneeColor(task.assignee)}`}>
+                                    {task.assignee}
                                   </span>
-                                )}
+                                  {task.is_skeleton && (
+                                    <span className="px-2 py-1 text-xs font-medium rounded bg-orange-100 text-orange-700">
+                                      Key Task
+                                    </span>
+                                  )}
+                                  <CompletedBy task={task} />
+                                </div>
                               </div>
                             </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {timeline.blocks?.filter(b => b.is_general).map((block) => {
+                const blockProgress = block.tasks ? calculateBlockProgress(block.tasks) : null;
+                const isExpanded = expandedBlocks.has(block.id);
+                const canAddTasks = !readOnly && (timeline.allow_client_task_create ?? false);
+
+                return (
+                  <div key={block.id} className="block-card border border-gray-200 print-block bg-gray-50">
+                    <h2 className="block-title hidden print:block">{block.title}</h2>
+                    <button
+                      onClick={() => toggleBlock(block.id)}
+                      className="w-full flex items-center justify-between p-6 text-left hover:bg-gray-100 transition-colors print:hidden"
+                    >
+                      <div className="flex items-center gap-4 flex-1">
+                        {blockProgress && <ProgressRing percentage={blockProgress.percentage} size={70} />}
+                        <div>
+                          <h3 className="text-xl font-semibold text-gray-900">{block.title}</h3>
+                          {blockProgress && (
+                            <p className="text-sm text-gray-600 mt-1">
+                              {blockProgress.completedTasks} of {blockProgress.totalTasks} tasks complete
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      {isExpanded ? <ChevronUp size={24} /> : <ChevronDown size={24} />}
+                    </button>
+
+                    {isExpanded && (
+                      <div className="px-6 pb-6 space-y-3">
+                        {canAddTasks && (
+                          <div className="mb-4 pb-4 border-b border-gray-200">
+                            {!showAddTask ? (
+                              <button
+                                onClick={() => setShowAddTask(true)}
+                                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                              >
+                                Add Task
+                              </button>
+                            ) : (
+                              <div className="space-y-3 p-4 bg-white rounded-lg border border-gray-200">
+                                <input
+                                  type="text"
+                                  value={newTaskTitle}
+                                  onChange={(e) => setNewTaskTitle(e.target.value)}
+                                  placeholder="Task title..."
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                />
+                                <input
+                                  type="date"
+                                  value={newTaskDueDate}
+                                  onChange={(e) => setNewTaskDueDate(e.target.value)}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  placeholder="Due date (optional)"
+                                />
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={handleAddGeneralTask}
+                                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                                  >
+                                    Save
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      setShowAddTask(false);
+                                      setNewTaskTitle('');
+                                      setNewTaskDueDate('');
+                                    }}
+                                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            )}
                           </div>
-                        );
-                      })}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
-
-            {timeline.blocks?.filter(b => b.is_general).map((block) => {
-              const blockProgress = block.tasks ? calculateBlockProgress(block.tasks) : null;
-              const isExpanded = expandedBlocks.has(block.id);
-              const canAddTasks = timeline.allow_client_task_create ?? false;
-
-              return (
-                <div key={block.id} className="block-card border border-gray-200 print-block bg-gray-50">
-                  <h2 className="block-title hidden print:block">{block.title}</h2>
-                  <button
-                    onClick={() => toggleBlock(block.id)}
-                    className="w-full flex items-center justify-between p-6 text-left hover:bg-gray-100 transition-colors print:hidden"
-                  >
-                    <div className="flex items-center gap-4 flex-1">
-                      {blockProgress && <ProgressRing percentage={blockProgress.percentage} size={70} />}
-                      <div>
-                        <h3 className="text-xl font-semibold text-gray-900">{block.title}</h3>
-                        {blockProgress && (
-                          <p className="text-sm text-gray-600 mt-1">
-                            {blockProgress.completedTasks} of {blockProgress.totalTasks} tasks complete
-                          </p>
                         )}
-                      </div>
-                    </div>
-                    {isExpanded ? <ChevronUp size={24} /> : <ChevronDown size={24} />}
-                  </button>
-
-                  {isExpanded && (
-                    <div className="px-6 pb-6 space-y-3">
-                      {canAddTasks && (
-                        <div className="mb-4 pb-4 border-b border-gray-200">
-                          {!showAddTask ? (
-                            <button
-                              onClick={() => setShowAddTask(true)}
-                              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+
+                        {block.tasks && block.tasks.filter(isTaskVisible).map((task) => {
+                          const canToggle = !readOnly && canClientToggle(task.assignee);
+
+                          return (
+                            <div
+                              key={task.id}
+                              className="task-card flex items-start gap-4 p-4 rounded-lg bg-white hover:bg-gray-50 transition-colors"
                             >
-                              Add Task
-                            </button>
-                          ) : (
-                            <div className="space-y-3 p-4 bg-white rounded-lg border border-gray-200">
-                              <input
-                                type="text"
-                                value={newTaskTitle}
-                                onChange={(e) => setNewTaskTitle(e.target.value)}
-                                placeholder="Task title..."
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                              />
                               <input
-                                type="date"
-                                value={newTaskDueDate}
-                                onChange={(e) => setNewTaskDueDate(e.target.value)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                placeholder="Due date (optional)"
+                                type="checkbox"
+                                checked={task.done}
+                                onChange={() => handleTaskToggle(task)}
+                                disabled={!canToggle}
+                                className={`mt-1 w-6 h-6 rounded border-gray-300 text-blue-600 focus:ring-blue-500 print:w-4 print:h-4 ${
+                                  canToggle ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'
+                                }`}
                               />
-                              <div className="flex gap-2">
-                                <button
-                                  onClick={handleAddGeneralTask}
-                                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                                >
-                                  Save
-                                </button>
-                                <button
-                                  onClick={() => {
-                                    setShowAddTask(false);
-                                    setNewTaskTitle('');
-                                    setNewTaskDueDate('');
-                                  }}
-                                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
-                                >
-                                  Cancel
-                                </button>
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      )}
-
-                      {block.tasks && block.tasks.filter(isTaskVisible).map((task) => {
-                        const canToggle = task.assignee === 'client' || task.assignee === 'joint';
-
-                        return (
-                          <div
-                            key={task.id}
-                            className="task-card flex items-start gap-4 p-4 rounded-lg bg-white hover:bg-gray-50 transition-colors"
-                          >
-                            <input
-                              type="checkbox"
-                              checked={task.done}
-                              onChange={() => handleTaskToggle(task)}
-                              disabled={!canToggle}
-                              className={`mt-1 w-6 h-6 rounded border-gray-300 text-blue-600 focus:ring-blue-500 print:w-4 print:h-4 ${
-                                canToggle ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'
-                              }`}
-                            />
-                            <div className="flex-1">
-                              <p className={`task-title text-gray-900 font-medium ${task.done ? 'line-through opacity-60' : ''}`}>
-                                {task.title}
-                              </p>
-                              <div className="task-meta flex items-center gap-2 mt-2">
-                                <span className={`px-2 py-1 text-xs font-medium rounded ${getAssigneeColor(task.assignee)}`}>
-                                  {task.assignee}
-                                </span>
-                                {task.is_skeleton && (
-                                  <span className="px-2 py-1 text-xs font-medium rounded bg-orange-100 text-orange-700">
-                                    Key Task
-                                  </span>
-                                )}
-                                {task.due_date && (
-                                  <span className="text-xs text-gray-500">
-                                    Due: {new Date(task.due_date).toLocaleDateString()}
+                              <div className="flex-1">
+                                <p className={`task-title text-gray-900 font-medium ${task.done ? 'line-through opacity-60' : ''}`}>
+                                  {task.title}
+                                </p>
+                                <div className="task-meta flex items-center gap-2 mt-2">
+                                  <span className={`px-2 py-1 text-xs font-medium rounded ${getAssigneeColor(task.assignee)}`}>
+                                    {task.assignee}
                                   </span>
-                                )}
+                                  {task.is_skeleton && (
+                                    <span className="px-2 py-1 text-xs font-medium rounded bg-orange-100 text-orange-700">
+                                      Key Task
+                                    </span>
+                                  )}
+                                  {task.due_date && (
+                                    <span className="text-xs text-gray-500">
+                                      Due: {new Date(task.due_date).toLocaleDateString()}
+                                    </span>
+                                  )}
+                                  <CompletedBy task={task} />
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
-          </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
 
           <div className="mt-8 text-center text-gray-600 text-sm">
             <p>Powered by JustSeventy Event Planning</p>
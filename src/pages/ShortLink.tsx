@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+
+export function ShortLink() {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!code) return;
+
+    supabase.rpc('client_share_token', { p_short_code: code }).then(({ data, error }) => {
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      navigate(`/client?token=${encodeURIComponent(data as string)}`, { replace: true });
+    });
+  }, [code, navigate]);
+
+  if (!error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-gray-500">Opening your timeline...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">{error}</p>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,54 @@
 import { useEffect, useState, useRef } from 'react';
 import { useParams } from 'react-router-dom';
-import { ArrowLeft, Link2, Calendar, MapPin, ChevronDown, ChevronUp, Eye, EyeOff, Printer, Filter, RefreshCw, Lock, Unlock, AlertCircle } from 'lucide-react';
+import { ArrowLeft, MapPin, ChevronDown, ChevronUp, Eye, EyeOff, Printer, Filter, RefreshCw, Lock, Unlock, AlertCircle, Download, Undo2, GitBranch, Clock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { canEdit, useStaff } from '../lib/staff';
 import { ProgressRing } from '../components/ProgressRing';
+import { RecalculationPreview } from '../components/RecalculationPreview';
+import { WorkingCalendarSettings } from '../components/WorkingCalendarSettings';
+import { DependencyEditor } from '../components/DependencyEditor';
+import { TaskTimingEditor } from '../components/TaskTimingEditor';
+import { GanttChart } from '../components/GanttChart';
+import { StaffMenu } from '../components/StaffMenu';
+import { ShareLinksPanel } from '../components/ShareLinksPanel';
+import { CompletedBy } from '../components/CompletedBy';
 import { calculateBlockProgress, calculateTimelineProgress, calculateProgressByAssignee } from '../utils/progress';
-import { calculateLeadTimeMonths, calculateScaleFactor } from '../utils/recalibration';
+import { getAssigneeColor } from '../utils/assignee';
+import { calculateLeadTimeMonths, todayISODate, WEEKLY_MODE_THRESHOLD_MONTHS } from '../utils/scheduling';
+import { computeCriticalPath } from '../utils/dependencies';
 import { calculateCountdown } from '../utils/countdown';
 import { trafficLight, trafficLabel } from '../utils/trafficLight';
-import { getEventSourceHead, updateEventDate, recalcTimeline } from '../api/events';
+import { getEventSourceHead, updateEventDate, recalcTimeline, restoreLastRecalculation } from '../api/events';
+import { downloadTimelineExport } from '../api/exports';
+import { updateTask, type TaskUpdate } from '../api/tasks';
+import { createShareLink, revokeShareLink, type NewShareLink } from '../api/shareLinks';
 import { BRAND } from '../config/brand';
 import themes, { type ThemeKey } from '../lib/themes';
-import type { Timeline, Block, Task } from '../types';
+import type { Timeline, Block, Task, Assignee, CrossBlockDependencyMode, Distribution, RecalculationOptions, RecalculationResult, RecalculationSnapshot, ShareLink, WorkingCalendar } from '../types';
 
 export function TimelineDetail() {
   const { id } = useParams<{ id: string }>();
+  const staff = useStaff();
+  const editable = canEdit(staff.role);
   const [timeline, setTimeline] = useState<Timeline | null>(null);
   const [loading, setLoading] = useState(true);
   const [expandedBlocks, setExpandedBlocks] = useState<Set<string>>(new Set());
-  const [shareLink, setShareLink] = useState<string>('');
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [creatingShareLink, setCreatingShareLink] = useState(false);
   const [showBackground, setShowBackground] = useState(true);
   const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set(['client', 'js', 'joint']));
   const [recalculating, setRecalculating] = useState(false);
+  const [recalcPreview, setRecalcPreview] = useState<{ options: RecalculationOptions; result: RecalculationResult } | null>(null);
+  const [applyingRecalc, setApplyingRecalc] = useState(false);
+  const [lastSnapshot, setLastSnapshot] = useState<RecalculationSnapshot | null>(null);
+  const [reverting, setReverting] = useState(false);
   const [respectLocks, setRespectLocks] = useState(true);
-  const [distribution, setDistribution] = useState<'balanced' | 'frontload' | 'even'>('frontload');
+  const [distribution, setDistribution] = useState<Distribution>('frontload');
+  const [capacity, setCapacity] = useState<Partial<Record<Assignee, number>>>({});
+  const [crossBlockDependencies, setCrossBlockDependencies] = useState<CrossBlockDependencyMode>('extend');
+  const [includeAuditInExport, setIncludeAuditInExport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
 
   const [localDate, setLocalDate] = useState<string>('');
   const [initialDate, setInitialDate] = useState<string>('');
@@ -33,6 +59,13 @@ export function TimelineDetail() {
   const pollRef = useRef<number | null>(null);
 
   const [showAddTask, setShowAddTask] = useState(false);
+  const [dependencyTask, setDependencyTask] = useState<Task | null>(null);
+  const [savingDependencies, setSavingDependencies] = useState(false);
+  const [dependencyError, setDependencyError] = useState<string | null>(null);
+  const [showGantt, setShowGantt] = useState(false);
+  const [timingTask, setTimingTask] = useState<Task | null>(null);
+  const [savingTiming, setSavingTiming] = useState(false);
+  const [timingError, setTimingError] = useState<string | null>(null);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskAssignee, setNewTaskAssignee] = useState<'client' | 'js' | 'joint'>('client');
   const [newTaskDueDate, setNewTaskDueDate] = useState('');
@@ -43,7 +76,8 @@ export function TimelineDetail() {
   useEffect(() => {
     if (id) {
       loadTimeline(id);
-      loadShareLink(id);
+      loadShareLinks(id);
+      loadLastSnapshot(id);
     }
   }, [id]);
 
@@ -109,21 +143,43 @@ export function TimelineDetail() {
     }
   }
 
-  async function loadShareLink(timelineId: string) {
+  async function loadLastSnapshot(timelineId: string) {
     try {
-      const { data } = await supabase
-        .from('share_links')
-        .select('token')
+      const { data, error } = await supabase
+        .from('recalculation_snapshots')
+        .select('*')
         .eq('timeline_id', timelineId)
-        .gt('expires_at', new Date().toISOString())
+        .is('restored_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
         .maybeSingle();
 
-      if (data?.token) {
-        const baseUrl = window.location.origin;
-        setShareLink(`${baseUrl}/client?token=${data.token}`);
-      }
+      if (error) throw error;
+      setLastSnapshot(data);
+    } catch (error) {
+      console.error('Error loading recalculation snapshot:', error);
+    }
+  }
+
+  // Every recalculation (and revert) writes or consumes a snapshot, so the
+  // revert button has to be refreshed along with the dates.
+  async function reloadAfterRecalculation(timelineId: string) {
+    await loadTimeline(timelineId);
+    await loadLastSnapshot(timelineId);
+  }
+
+  async function loadShareLinks(timelineId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('share_links')
+        .select('*')
+        .eq('timeline_id', timelineId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setShareLinks(data || []);
     } catch (error) {
-      console.error('Error loading share link:', error);
+      console.error('Error loading share links:', error);
     }
   }
 
@@ -136,7 +192,7 @@ export function TimelineDetail() {
         .update({
           done: !task.done,
           done_at: !task.done ? new Date().toISOString() : null,
-          done_by: !task.done ? 'admin' : null,
+          done_by: !task.done ? staff.email : null,
         })
         .eq('id', task.id);
 
@@ -146,7 +202,7 @@ export function TimelineDetail() {
         timeline_id: timeline.id,
         task_id: task.id,
         action: !task.done ? 'check' : 'uncheck',
-        actor: 'admin',
+        actor: staff.email,
         changes: { done: { from: task.done, to: !task.done } },
       });
 
@@ -175,7 +231,7 @@ export function TimelineDetail() {
         timeline_id: timeline.id,
         task_id: task.id,
         action: 'update',
-        actor: 'admin',
+        actor: staff.email,
         changes: { assignee: { from: task.assignee, to: newAssignee } },
       });
 
@@ -185,32 +241,34 @@ export function TimelineDetail() {
     }
   }
 
-  async function handleGenerateShareLink() {
+  async function handleCreateShareLink(link: NewShareLink) {
     if (!timeline) return;
 
     try {
-      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines/${timeline.id}/share`;
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ expiresInDays: 90 }),
-      });
+      setCreatingShareLink(true);
+      const created = await createShareLink(timeline.id, link);
+      await loadShareLinks(timeline.id);
 
-      if (!response.ok) throw new Error('Failed to generate share link');
+      navigator.clipboard.writeText(created.url);
+      alert('Share link copied to clipboard!');
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setCreatingShareLink(false);
+    }
+  }
 
-      const data = await response.json();
-      const baseUrl = window.location.origin;
-      const link = `${baseUrl}/client?token=${data.token}`;
-      setShareLink(link);
+  async function handleRevokeShareLink(link: ShareLink) {
+    if (!timeline) return;
+    if (!confirm(`Revoke ${link.label || 'this link'}? Anyone using it will lose access immediately.`)) return;
 
-      navigator.clipboard.writeText(link);
-      alert('Share link copied to clipboard!');
+    try {
+      await revokeShareLink(timeline.id, link.id);
+      await loadShareLinks(timeline.id);
     } catch (error) {
-      console.error('Error generating share link:', error);
-      alert('Failed to generate share link');
+      console.error('Error revoking share link:', error);
+      alert(error instanceof Error ? error.message : 'Failed to revoke share link');
     }
   }
 
@@ -294,16 +352,21 @@ export function TimelineDetail() {
     }
   }
 
-  function getAssigneeColor(assignee: string): string {
-    switch (assignee) {
-      case 'client':
-        return 'bg-blue-100 text-blue-700';
-      case 'js':
-        return 'bg-purple-100 text-purple-700';
-      case 'joint':
-        return 'bg-green-100 text-green-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
+  async function handleWorkingCalendarChange(calendar: WorkingCalendar | null) {
+    if (!timeline) return;
+
+    try {
+      const { error } = await supabase
+        .from('timelines')
+        .update({ working_calendar: calendar })
+        .eq('id', timeline.id);
+
+      if (error) throw error;
+
+      setTimeline({ ...timeline, working_calendar: calendar });
+    } catch (error) {
+      console.error('Error updating working calendar:', error);
+      alert('Failed to update working calendar');
     }
   }
 
@@ -324,33 +387,102 @@ export function TimelineDetail() {
 
     setRecalculating(true);
     try {
-      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timelines-recalculate/${id}`;
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        },
-        body: JSON.stringify({
-          respectLocks,
-          distribution,
-        }),
-      });
+      const options: RecalculationOptions = {
+        respectLocks,
+        distribution,
+        todayISO: todayISODate(),
+        capacity: Object.keys(capacity).length ? capacity : undefined,
+        crossBlockDependencies,
+      };
+      const result = await recalcTimeline(id, { ...options, dryRun: true });
+      setRecalcPreview({ options, result });
+    } catch (error) {
+      console.error('Error previewing recalculation:', error);
+      alert('Failed to preview recalculation. Please try again.');
+    } finally {
+      setRecalculating(false);
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error('Recalculation failed');
+  function handleCapacityChange(assignee: Assignee, value: string) {
+    const limit = Number(value);
+    setCapacity(prev => {
+      const next = { ...prev };
+      if (value && limit > 0) {
+        next[assignee] = limit;
+      } else {
+        delete next[assignee];
       }
+      return next;
+    });
+  }
 
-      const result = await response.json();
+  async function applyRecalculation() {
+    if (!recalcPreview || !id) return;
 
-      alert(`Timeline recalibrated successfully!\nLead time: ${result.lead_time_months} months\nScale factor: ${result.scale_factor.toFixed(2)}`);
+    setApplyingRecalc(true);
+    try {
+      const result = await recalcTimeline(id, recalcPreview.options);
+      setRecalcPreview(null);
 
-      await loadTimeline(id);
+      alert(
+        `Timeline recalibrated successfully!\n` +
+        `Updated ${result.updated} task dates, skipped ${result.skipped_locked} locked\n` +
+        `Scale factor: ${result.scale_factor.toFixed(2)}` +
+        (result.notes.length ? `\n\n${result.notes.join('\n')}` : '')
+      );
+
+      await reloadAfterRecalculation(id);
     } catch (error) {
       console.error('Error recalculating timeline:', error);
       alert('Failed to recalculate timeline. Please try again.');
     } finally {
-      setRecalculating(false);
+      setApplyingRecalc(false);
+    }
+  }
+
+  async function handleRevertRecalculation() {
+    if (!lastSnapshot || !id) return;
+
+    const confirmed = window.confirm(
+      `Revert the recalculation from ${new Date(lastSnapshot.created_at).toLocaleString()}?\n\n` +
+      `This restores ${lastSnapshot.tasks.length} task due dates and ${lastSnapshot.blocks.length} block windows ` +
+      `to their values before that run. Date edits made since then will be overwritten.`
+    );
+    if (!confirmed) return;
+
+    setReverting(true);
+    try {
+      const result = await restoreLastRecalculation(id, lastSnapshot.id);
+      alert(`Restored ${result.restored_tasks} task dates and ${result.restored_blocks} block windows`);
+      await reloadAfterRecalculation(id);
+    } catch (error) {
+      console.error('Error reverting recalculation:', error);
+      alert('Failed to revert recalculation. Please try again.');
+    } finally {
+      setReverting(false);
+    }
+  }
+
+  async function handleExport(format: 'csv' | 'docx' | 'status' | 'full') {
+    if (!timeline) return;
+
+    setExporting(true);
+    setShowExportMenu(false);
+    try {
+      const prefix = timeline.event?.code || timeline.id;
+      if (format === 'csv') {
+        await downloadTimelineExport(timeline.id, 'export.csv', { includeAudit: String(includeAuditInExport) }, `${prefix}-timeline.csv`);
+      } else if (format === 'docx') {
+        await downloadTimelineExport(timeline.id, 'export.docx', { background: String(showBackground) }, `${prefix}-timeline.docx`);
+      } else {
+        await downloadTimelineExport(timeline.id, 'export.pdf', { mode: format, background: String(showBackground) }, `${prefix}-${format}.pdf`);
+      }
+    } catch (error) {
+      console.error('Error exporting timeline:', error);
+      alert('Failed to export timeline');
+    } finally {
+      setExporting(false);
     }
   }
 
@@ -372,6 +504,78 @@ export function TimelineDetail() {
     }
   }
 
+  function openDependencyEditor(task: Task) {
+    setDependencyError(null);
+    setDependencyTask(task);
+  }
+
+  async function handleSaveDependencies(dependsOnTaskIds: string[]) {
+    if (!dependencyTask || !id) return;
+
+    setSavingDependencies(true);
+    setDependencyError(null);
+    try {
+      await updateTask(id, dependencyTask.id, { depends_on_task_ids: dependsOnTaskIds });
+      setDependencyTask(null);
+      await loadTimeline(id);
+    } catch (error) {
+      console.error('Error updating dependencies:', error);
+      setDependencyError(error instanceof Error ? error.message : 'Failed to update dependencies');
+    } finally {
+      setSavingDependencies(false);
+    }
+  }
+
+  function openTimingEditor(task: Task) {
+    setTimingError(null);
+    setTimingTask(task);
+  }
+
+  async function handleSaveTiming(updates: TaskUpdate) {
+    if (!timingTask || !id) return;
+
+    setSavingTiming(true);
+    setTimingError(null);
+    try {
+      await updateTask(id, timingTask.id, updates);
+      setTimingTask(null);
+      await loadTimeline(id);
+    } catch (error) {
+      console.error('Error updating task timing:', error);
+      setTimingError(error instanceof Error ? error.message : 'Failed to update task timing');
+    } finally {
+      setSavingTiming(false);
+    }
+  }
+
+  async function handleGanttDateChange(task: Task, dueDate: string) {
+    if (!id) return;
+
+    try {
+      await updateTask(id, task.id, { due_date: dueDate, locked: true });
+      await loadTimeline(id);
+    } catch (error) {
+      console.error('Error moving task:', error);
+      alert('Failed to move task');
+    }
+  }
+
+  async function handleTaskReviewed(task: Task) {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ needs_review: false })
+        .eq('id', task.id);
+
+      if (error) throw error;
+
+      await loadTimeline(id!);
+    } catch (error) {
+      console.error('Error marking task reviewed:', error);
+      alert('Failed to mark task as reviewed');
+    }
+  }
+
   function handleLocalDateChange(e: React.ChangeEvent<HTMLInputElement>) {
     setLocalDate(e.target.value);
   }
@@ -382,33 +586,42 @@ export function TimelineDetail() {
     setShowUpdateConfirm(true);
   }
 
+  function applySourceHead(head: { date: string; sourceVersion: number }) {
+    setTimeline((prev) => prev && prev.event ? {
+      ...prev,
+      event: { ...prev.event, date: head.date, source_version: head.sourceVersion },
+    } : prev);
+  }
+
   async function confirmUpdateJsLive(force = false) {
     if (!pendingNewDate || !timeline?.event?.id) return;
     setShowUpdateConfirm(false);
     try {
       const mutationId = crypto?.randomUUID?.() || String(Date.now());
-      const res = await updateEventDate(String(timeline.event.id), pendingNewDate, mutationId, force);
+      const res = await updateEventDate(String(timeline.event.id), pendingNewDate, timeline.event.source_version, mutationId, force);
       alert('Date updated in JS Live');
+      applySourceHead({ date: pendingNewDate, sourceVersion: res.sourceVersion });
       setInitialDate(pendingNewDate);
       setLocalDate(pendingNewDate);
-      const doRecalc = window.confirm('Recalculate the timeline to fit the new date?');
+      const doRecalc = window.confirm('Preview a recalculation of the timeline to fit the new date?');
       if (doRecalc) {
-        await recalcTimeline(String(timeline.id), { respectLocks: true, distribution: 'frontload' });
-        alert('Timeline recalculated');
-        await loadTimeline(timeline.id);
+        await handleRecalculate();
       }
     } catch (err:any) {
       const msg = String(err?.message || err);
       if (msg.includes('conflict') || msg.includes('sourceVersion')) {
+        const head = await getEventSourceHead(String(timeline.event.id)).catch(() => sourceHead);
+        if (head) setSourceHead(head);
         const overwrite = window.confirm(
           `JS Live changed the date while you were editing.\n` +
-          `JS Live: ${sourceHead?.date?.substring(0,10)}\n` +
+          `JS Live: ${head?.date?.substring(0,10)}\n` +
           `Yours: ${pendingNewDate}\n\n` +
           `Overwrite JS Live with your date?`
         );
         if (overwrite) return confirmUpdateJsLive(true);
-        if (sourceHead?.date) {
-          const js = sourceHead.date.substring(0,10);
+        if (head?.date) {
+          const js = head.date.substring(0,10);
+          applySourceHead(head);
           setLocalDate(js);
           setInitialDate(js);
           alert('Kept JS Live date');
@@ -428,14 +641,13 @@ export function TimelineDetail() {
   async function acceptJsChange() {
     if (!sourceHead?.date) return;
     const js = sourceHead.date.substring(0,10);
+    applySourceHead(sourceHead);
     setLocalDate(js);
     setInitialDate(js);
     setShowAcceptJsChange(false);
-    const doRecalc = window.confirm('JS Live date accepted. Recalculate the timeline now?');
+    const doRecalc = window.confirm('JS Live date accepted. Preview a recalculation of the timeline now?');
     if (doRecalc) {
-      await recalcTimeline(String(timeline!.id), { respectLocks: true, distribution: 'frontload' });
-      alert('Timeline recalculated');
-      await loadTimeline(timeline!.id);
+      await handleRecalculate();
     }
   }
 
@@ -461,6 +673,16 @@ export function TimelineDetail() {
   const progress = timeline.blocks ? calculateTimelineProgress(timeline.blocks, includeGeneral) : null;
   const progressByAssignee = calculateProgressByAssignee(allTasks);
   const generalProgress = calculateBlockProgress(generalTasks);
+  const criticalPath = computeCriticalPath(allTasks);
+  const criticalTaskIds = new Set(criticalPath.path);
+  const tasksById = new Map(allTasks.map(task => [task.id, task]));
+
+  function lateDependencies(task: Task): Task[] {
+    if (!task.due_date) return [];
+    return (task.depends_on_task_ids || [])
+      .map(depId => tasksById.get(depId))
+      .filter((dep): dep is Task => !!dep?.due_date && dep.due_date.substring(0, 10) >= task.due_date!.substring(0, 10));
+  }
 
   const themeKey = timeline.template_key as ThemeKey;
   const backgroundImage = themes[themeKey] || themes.wedding;
@@ -487,13 +709,16 @@ export function TimelineDetail() {
                 style={{ imageRendering: '-webkit-optimize-contrast' }}
               />
             </a>
-            <a
-              href="/"
-              className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors text-sm"
-            >
-              <ArrowLeft size={18} />
-              Back to Timelines
-            </a>
+            <div className="flex items-center gap-4">
+              <a
+                href="/"
+                className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors text-sm"
+              >
+                <ArrowLeft size={18} />
+                Back to Timelines
+              </a>
+              <StaffMenu />
+            </div>
           </div>
         </div>
       </header>
@@ -530,7 +755,64 @@ export function TimelineDetail() {
 
       <div className="relative z-10">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-6 flex items-center justify-end print:hidden">
+        {!editable && (
+          <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800 print:hidden">
+            You have read-only access. Ask an owner or planner to make changes.
+          </div>
+        )}
+        <div className="mb-6 flex items-center justify-end gap-3 print:hidden">
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                disabled={exporting}
+                className="flex items-center gap-2 px-4 py-2 bg-white/90 backdrop-blur text-gray-700 rounded-lg hover:bg-white transition-colors shadow-sm border border-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download size={18} />
+                {exporting ? 'Exporting...' : 'Export'}
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 p-2 z-20">
+                  <button
+                    onClick={() => handleExport('status')}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                  >
+                    PDF — Status report
+                  </button>
+                  <button
+                    onClick={() => handleExport('full')}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                  >
+                    PDF — Full checklist
+                  </button>
+                  <button
+                    onClick={() => handleExport('docx')}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                  >
+                    Word document (DOCX)
+                  </button>
+                  <p className="px-3 pb-2 text-xs text-gray-500">
+                    PDF and Word exports {showBackground ? 'include' : 'omit'} the themed background, following the background toggle.
+                  </p>
+                  <div className="border-t border-gray-200 pt-2">
+                    <button
+                      onClick={() => handleExport('csv')}
+                      className="w-full text-left px-3 py-2 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                    >
+                      CSV spreadsheet
+                    </button>
+                    <label className="flex items-center gap-2 px-3 py-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={includeAuditInExport}
+                        onChange={(e) => setIncludeAuditInExport(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 rounded"
+                      />
+                      Include audit trail in CSV
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
             <button
               onClick={() => window.print()}
               className="flex items-center gap-2 px-4 py-2 bg-white/90 backdrop-blur text-gray-700 rounded-lg hover:bg-white transition-colors shadow-sm border border-gray-200"
@@ -559,7 +841,8 @@ export function TimelineDetail() {
               </div>
               <button
                 onClick={acceptJsChange}
-                className="px-3 py-1 bg-yellow-600 text-white text-sm rounded hover:bg-yellow-700 transition-colors"
+                disabled={!editable}
+                className="px-3 py-1 bg-yellow-600 text-white text-sm rounded hover:bg-yellow-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Accept
               </button>
@@ -594,10 +877,11 @@ export function TimelineDetail() {
                       type="date"
                       value={localDate || ''}
                       onChange={handleLocalDateChange}
+                      disabled={!editable}
                       className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                     <button
-                      disabled={!isDirty}
+                      disabled={!isDirty || !editable}
                       onClick={requestUpdateJsLive}
                       title="Update JS Live with this date"
                       className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
@@ -737,44 +1021,14 @@ export function TimelineDetail() {
             </div>
           </div>
 
-          <div className="mt-4">
-            <div className="flex gap-3">
-              <button
-                onClick={handleGenerateShareLink}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                <Link2 size={18} />
-                {shareLink ? 'Regenerate' : 'Generate'} Client Link
-              </button>
-              {shareLink && (
-                <>
-                  <button
-                    onClick={() => {
-                      navigator.clipboard.writeText(shareLink);
-                      alert('Link copied to clipboard!');
-                    }}
-                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
-                  >
-                    Copy Link
-                  </button>
-                  <a
-                    href={shareLink}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                  >
-                    Open Client View
-                  </a>
-                </>
-              )}
-            </div>
-            {shareLink && (
-              <div className="mt-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
-                <p className="text-xs font-medium text-blue-700 mb-1">Client Access Link:</p>
-                <p className="text-sm text-blue-900 font-mono break-all">{shareLink}</p>
-                <p className="text-xs text-blue-600 mt-2">This link expires in 30 days and allows clients to view and check off their tasks.</p>
-              </div>
-            )}
+          <div className="mt-6 border-t border-gray-200 pt-6">
+            <ShareLinksPanel
+              links={shareLinks}
+              editable={editable}
+              creating={creatingShareLink}
+              onCreate={handleCreateShareLink}
+              onRevoke={handleRevokeShareLink}
+            />
           </div>
 
           <div className="mt-6 border-t border-gray-200 pt-6">
@@ -785,7 +1039,7 @@ export function TimelineDetail() {
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-gray-700">
                     <span className="font-medium">Lead Time:</span>{' '}
-                    {calculateLeadTimeMonths(new Date(timeline.event.date))} months
+                    {calculateLeadTimeMonths(timeline.event.date).toFixed(1)} months
                   </div>
                   {timeline.scale_factor && (
                     <div className="text-sm text-gray-700">
@@ -817,13 +1071,40 @@ export function TimelineDetail() {
 
                 <select
                   value={distribution}
-                  onChange={(e) => setDistribution(e.target.value as 'balanced' | 'frontload' | 'even')}
+                  onChange={(e) => setDistribution(e.target.value as Distribution)}
                   className="px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="frontload">Front-load skeleton</option>
                   <option value="balanced">Balanced</option>
                   <option value="even">Even by count</option>
                 </select>
+
+                <select
+                  value={crossBlockDependencies}
+                  onChange={(e) => setCrossBlockDependencies(e.target.value as CrossBlockDependencyMode)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="extend">Late dependencies extend the block</option>
+                  <option value="report">Late dependencies are reported</option>
+                </select>
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-700 mb-2">Max weight per week (leave blank for no limit)</p>
+                <div className="flex flex-wrap items-center gap-4">
+                  {([['client', 'Client'], ['js', 'JS'], ['joint', 'Joint']] as [Assignee, string][]).map(([assignee, label]) => (
+                    <label key={assignee} className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">{label}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={capacity[assignee] ?? ''}
+                        onChange={(e) => handleCapacityChange(assignee, e.target.value)}
+                        className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </label>
+                  ))}
+                </div>
               </div>
 
               <button
@@ -832,22 +1113,48 @@ export function TimelineDetail() {
                 className="flex items-center justify-center gap-2 px-6 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed w-full md:w-auto"
               >
                 <RefreshCw size={18} className={recalculating ? 'animate-spin' : ''} />
-                {recalculating ? 'Recalculating...' : 'Recalculate Schedule'}
+                {recalculating ? 'Preparing preview...' : 'Recalculate Schedule'}
               </button>
 
+              {lastSnapshot && editable && (
+                <button
+                  onClick={handleRevertRecalculation}
+                  disabled={reverting}
+                  className="flex items-center justify-center gap-2 px-6 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed w-full md:w-auto"
+                >
+                  <Undo2 size={18} />
+                  {reverting ? 'Reverting...' : `Revert last recalculation (${new Date(lastSnapshot.created_at).toLocaleDateString()})`}
+                </button>
+              )}
+
               <div className="text-xs text-gray-600 space-y-2 bg-gray-50 p-3 rounded-lg">
                 <p className="font-medium text-gray-700">Distribution Strategies:</p>
                 <ul className="space-y-1 ml-2">
                   <li><span className="font-semibold">Front-load:</span> Places first 50% of tasks in the first 25% of available time, keeping critical work early.</li>
-                  <li><span className="font-semibold">Balanced:</span> Distributes tasks evenly throughout the block with consistent spacing.</li>
+                  <li><span className="font-semibold">Balanced:</span> Spreads task weight so each week carries a similar load, with key tasks staggered across the block.</li>
                   <li><span className="font-semibold">Even by count:</span> Spreads tasks uniformly based on mathematical distribution (i/(N-1)).</li>
                 </ul>
                 <p className="mt-2 pt-2 border-t border-gray-200">
                   <span className="font-semibold">Respect Locks:</span> When checked, locked tasks stay fixed and act as anchors, splitting blocks into segments. Unlocked tasks distribute around them. When unchecked, all tasks (including locked ones) are repositioned.
                 </p>
+                <p className="mt-2 pt-2 border-t border-gray-200">
+                  <span className="font-semibold">Cross-block dependencies:</span> When a task depends on one due later (often in a later block), it is either moved to the next working day after it, extending its block's window, or left in place and listed as a conflict in the preview. Locked tasks are always reported.
+                </p>
+                <p className="mt-2 pt-2 border-t border-gray-200">
+                  <span className="font-semibold">Max weight per week:</span> Moves unlocked tasks into the nearest week of their block that has room for that assignee. Weeks that still go over the limit are listed in the preview notes.
+                </p>
               </div>
             </div>
 
+            <div className="mt-6 border-t border-gray-200 pt-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Working Calendar</h3>
+              <WorkingCalendarSettings
+                value={timeline.working_calendar}
+                editable={editable}
+                onChange={handleWorkingCalendarChange}
+              />
+            </div>
+
             <div className="mt-6 border-t border-gray-200 pt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">General Tasks Settings</h3>
               <div className="space-y-3">
@@ -856,6 +1163,7 @@ export function TimelineDetail() {
                     type="checkbox"
                     checked={timeline.include_general_in_totals ?? true}
                     onChange={(e) => handleToggleGeneralSetting('include_general_in_totals', e.target.checked)}
+                    disabled={!editable}
                     className="w-4 h-4 text-blue-600 rounded"
                   />
                   <span className="text-sm text-gray-700">Include General Tasks in overall progress</span>
@@ -865,6 +1173,7 @@ export function TimelineDetail() {
                     type="checkbox"
                     checked={timeline.allow_client_task_create ?? false}
                     onChange={(e) => handleToggleGeneralSetting('allow_client_task_create', e.target.checked)}
+                    disabled={!editable}
                     className="w-4 h-4 text-blue-600 rounded"
                   />
                   <span className="text-sm text-gray-700">Allow clients to add tasks in General block</span>
@@ -874,6 +1183,88 @@ export function TimelineDetail() {
           </div>
         </div>
 
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6 print:hidden">
+          <button
+            onClick={() => setShowGantt(!showGantt)}
+            className="w-full flex items-center justify-between text-left"
+          >
+            <h2 className="text-lg font-semibold text-gray-900">Gantt view</h2>
+            {showGantt ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+          </button>
+          {showGantt && timeline.blocks && (
+            <div className="mt-4">
+              <GanttChart
+                blocks={timeline.blocks.filter(b => !b.is_general)}
+                eventDate={timeline.event?.date}
+                isTaskVisible={isTaskVisible}
+                onTaskDateChange={editable ? handleGanttDateChange : undefined}
+              />
+            </div>
+          )}
+        </div>
+
+        {criticalPath.path.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6 print:hidden">
+            <h2 className="text-lg font-semibold text-gray-900">Critical path</h2>
+            <p className="text-sm text-gray-600 mt-1 mb-4">
+              The longest chain of incomplete dependent tasks. Any delay here pushes everything after it towards the event date.
+            </p>
+            <ol className="flex flex-wrap items-center gap-2 text-sm">
+              {criticalPath.path.map((taskId, index) => {
+                const task = tasksById.get(taskId)!;
+                return (
+                  <li key={taskId} className="flex items-center gap-2">
+                    {index > 0 && <span className="text-gray-400">→</span>}
+                    <span className={`px-2 py-1 rounded ${task.is_skeleton ? 'bg-orange-100 text-orange-800' : 'bg-red-50 text-red-800'}`}>
+                      {task.title}
+                      {task.due_date && (
+                        <span className="ml-1 text-xs opacity-75">({new Date(task.due_date).toLocaleDateString()})</span>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
+        {timeline.schedule_mode === 'weekly' && (() => {
+          const weekOffsets = Array.from(new Set(
+            allTasks.map(task => task.week_offset).filter((offset): offset is number => offset != null)
+          )).sort((a, b) => a - b);
+
+          return (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6 print:hidden">
+              <h2 className="text-lg font-semibold text-gray-900">Weekly plan</h2>
+              <p className="text-sm text-gray-600 mt-1 mb-4">
+                Less than {WEEKLY_MODE_THRESHOLD_MONTHS} months to go, so tasks are planned week by week.
+                Key tasks come first; other tasks are flagged for review.
+              </p>
+              <div className="space-y-4">
+                {weekOffsets.map(offset => (
+                  <div key={offset}>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">Week {offset}</h3>
+                    <ul className="space-y-1">
+                      {allTasks
+                        .filter(task => task.week_offset === offset && isTaskVisible(task))
+                        .sort((a, b) => (a.due_date || '').localeCompare(b.due_date || ''))
+                        .map(task => (
+                          <li key={task.id} className="flex items-center gap-2 text-sm">
+                            <span className={`flex-1 ${task.done ? 'line-through opacity-60' : 'text-gray-900'}`}>{task.title}</span>
+                            <span className={`px-2 py-0.5 text-xs font-medium rounded ${getAssigneeColor(task.assignee)}`}>{task.assignee}</span>
+                            {task.due_date && (
+                              <span className="text-xs text-gray-500 w-24 text-right">{new Date(task.due_date).toLocaleDateString()}</span>
+                            )}
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })()}
+
         <div className="space-y-4 print-columns">
           {timeline.blocks?.filter(b => !b.is_general).map((block) => {
             const blockProgress = block.tasks ? calculateBlockProgress(block.tasks) : null;
@@ -939,6 +1330,7 @@ export function TimelineDetail() {
                           type="checkbox"
                           checked={task.done}
                           onChange={() => handleTaskToggle(task)}
+                          disabled={!editable}
                           className="mt-1 w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer print:w-4 print:h-4"
                         />
                         <div className="flex-1">
@@ -948,12 +1340,13 @@ export function TimelineDetail() {
                           <div className="task-meta flex items-center gap-2 mt-1">
                             <button
                               onClick={() => handleAssigneeChange(task)}
-                              className={`px-2 py-0.5 text-xs font-medium rounded transition-all hover:ring-2 hover:ring-offset-1 ${getAssigneeColor(task.assignee)} ${
+                              disabled={!editable}
+                              className={`px-2 py-0.5 text-xs font-medium rounded transition-all enabled:hover:ring-2 enabled:hover:ring-offset-1 ${getAssigneeColor(task.assignee)} ${
                                 task.assignee === 'client' ? 'hover:ring-blue-300' :
                                 task.assignee === 'js' ? 'hover:ring-purple-300' :
                                 'hover:ring-green-300'
-                              } cursor-pointer print:cursor-default`}
-                              title="Click to change assignee"
+                              } cursor-pointer disabled:cursor-default print:cursor-default`}
+                              title={editable ? 'Click to change assignee' : undefined}
                             >
                               {task.assignee}
                             </button>
@@ -962,20 +1355,91 @@ export function TimelineDetail() {
                                 Key Task
                               </span>
                             )}
+                            {task.needs_review && (
+                              <button
+                                onClick={() => handleTaskReviewed(task)}
+                                disabled={!editable}
+                                className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800 enabled:hover:bg-yellow-200 transition-colors print:hidden"
+                                title={editable ? 'Non-essential in weekly mode. Click to mark reviewed' : 'Non-essential in weekly mode'}
+                              >
+                                Needs review
+                              </button>
+                            )}
+                            {lateDependencies(task).length > 0 && (
+                              <span
+                                className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded bg-red-100 text-red-700"
+                                title={`Due on or before: ${lateDependencies(task).map(dep => dep.title).join(', ')}`}
+                              >
+                                <AlertCircle size={12} />
+                                Due before a dependency
+                              </span>
+                            )}
+                            {criticalTaskIds.has(task.id) && (
+                              <span className="px-2 py-0.5 text-xs font-medium rounded bg-red-100 text-red-700">
+                                Critical path
+                              </span>
+                            )}
+                            {criticalPath.blocking.has(task.id) && (
+                              <span
+                                className="px-2 py-0.5 text-xs font-medium rounded bg-red-50 text-red-700"
+                                title={criticalPath.blocking.get(task.id)!.map(taskId => tasksById.get(taskId)?.title).join(', ')}
+                              >
+                                Blocks {criticalPath.blocking.get(task.id)!.length} key task{criticalPath.blocking.get(task.id)!.length === 1 ? '' : 's'}
+                              </span>
+                            )}
                             <span className="text-xs text-gray-500">Weight: {task.weight}</span>
+                            {task.start_date && (
+                              <span className="text-xs text-gray-500">
+                                Start: {new Date(task.start_date).toLocaleDateString()}
+                              </span>
+                            )}
                             {task.due_date && (
                               <span className="text-xs text-gray-500">
                                 Due: {new Date(task.due_date).toLocaleDateString()}
                               </span>
                             )}
+                            {task.min_lead_days_before_event != null && (
+                              <span className="text-xs text-gray-500" title="Supplier lead time">
+                                Lead: {task.min_lead_days_before_event}d
+                              </span>
+                            )}
+                            <CompletedBy task={task} />
+                            <button
+                              onClick={() => openTimingEditor(task)}
+                              disabled={!editable}
+                              className={`ml-auto p-1 rounded transition-colors print:hidden ${
+                                task.duration_days != null || task.min_lead_days_before_event != null || task.start_date
+                                  ? 'text-blue-600 enabled:hover:bg-blue-100'
+                                  : 'text-gray-400 enabled:hover:bg-gray-100'
+                              } disabled:cursor-default`}
+                              title="Edit start date, duration and lead time"
+                            >
+                              <Clock size={14} />
+                            </button>
+                            <button
+                              onClick={() => openDependencyEditor(task)}
+                              disabled={!editable}
+                              className={`flex items-center gap-1 p-1 rounded transition-colors print:hidden ${
+                                task.depends_on_task_ids?.length
+                                  ? 'text-blue-600 enabled:hover:bg-blue-100'
+                                  : 'text-gray-400 enabled:hover:bg-gray-100'
+                              } disabled:cursor-default`}
+                              title="Edit dependencies"
+                            >
+                              <GitBranch size={14} />
+                              {!!task.depends_on_task_ids?.length && (
+                                <span className="text-xs">{task.depends_on_task_ids.length}</span>
+                              )}
+                            </button>
                             <button
                               onClick={() => handleTaskLockToggle(task)}
-                              className={`ml-auto p-1 rounded transition-colors ${
+                              disabled={!editable}
+                              className={`p-1 rounded transition-colors ${
                                 task.locked
-                                  ? 'text-orange-600 hover:bg-orange-100'
-                                  : 'text-gray-400 hover:bg-gray-100'
-                              }`}
-                              title={task.locked ? 'Task locked (won\'t be recalculated)' : 'Click to lock task'}
+                                  ? 'text-orange-600 enabled:hover:bg-orange-100'
+                                  : 'text-gray-400 enabled:hover:bg-gray-100'
+                              } disabled:cursor-default`}
+                              title={task.locked ? 'Task locked (won\'t be recalculated)' : editable ? 'Click to lock task' : 'Task not locked'}
                             >
                               {task.locked ? <Lock size={14} /> : <Unlock size={14} />}
                             </button>
@@ -1044,70 +1508,72 @@ export function TimelineDetail() {
 
                 {isExpanded && (
                   <div className="px-6 pb-6 space-y-2">
-                    <div className="mb-4 pb-4 border-b border-gray-200">
-                      {!showAddTask ? (
-                        <button
-                          onClick={() => setShowAddTask(true)}
-                          className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
-                        >
-                          Add Task
-                        </button>
-                      ) : (
-                        <div className="space-y-3 p-4 bg-white rounded-lg border border-gray-200">
-                          <input
-                            type="text"
-                            value={newTaskTitle}
-                            onChange={(e) => setNewTaskTitle(e.target.value)}
-                            placeholder="Task title..."
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                          />
-                          <div className="grid grid-cols-2 gap-3">
-                            <select
-                              value={newTaskAssignee}
-                              onChange={(e) => setNewTaskAssignee(e.target.value as 'client' | 'js' | 'joint')}
-                              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                            >
-                              <option value="client">Client</option>
-                              <option value="js">JustSeventy</option>
-                              <option value="joint">Joint</option>
-                            </select>
+                    {editable && (
+                      <div className="mb-4 pb-4 border-b border-gray-200">
+                        {!showAddTask ? (
+                          <button
+                            onClick={() => setShowAddTask(true)}
+                            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                          >
+                            Add Task
+                          </button>
+                        ) : (
+                          <div className="space-y-3 p-4 bg-white rounded-lg border border-gray-200">
                             <input
-                              type="number"
-                              value={newTaskWeight}
-                              onChange={(e) => setNewTaskWeight(parseInt(e.target.value) || 1)}
-                              min="1"
-                              placeholder="Weight"
-                              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              type="text"
+                              value={newTaskTitle}
+                              onChange={(e) => setNewTaskTitle(e.target.value)}
+                              placeholder="Task title..."
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                             />
+                            <div className="grid grid-cols-2 gap-3">
+                              <select
+                                value={newTaskAssignee}
+                                onChange={(e) => setNewTaskAssignee(e.target.value as 'client' | 'js' | 'joint')}
+                                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              >
+                                <option value="client">Client</option>
+                                <option value="js">JustSeventy</option>
+                                <option value="joint">Joint</option>
+                              </select>
+                              <input
+                                type="number"
+                                value={newTaskWeight}
+                                onChange={(e) => setNewTaskWeight(parseInt(e.target.value) || 1)}
+                                min="1"
+                                placeholder="Weight"
+                                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <input
+                              type="date"
+                              value={newTaskDueDate}
+                              onChange={(e) => setNewTaskDueDate(e.target.value)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                            <div className="flex gap-2">
+                              <button
+                                onClick={handleAddGeneralTask}
+                                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setShowAddTask(false);
+                                  setNewTaskTitle('');
+                                  setNewTaskDueDate('');
+                                  setNewTaskWeight(1);
+                                }}
+                                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                            </div>
                           </div>
-                          <input
-                            type="date"
-                            value={newTaskDueDate}
-                            onChange={(e) => setNewTaskDueDate(e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                          />
-                          <div className="flex gap-2">
-                            <button
-                              onClick={handleAddGeneralTask}
-                              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                            >
-                              Save
-                            </button>
-                            <button
-                              onClick={() => {
-                                setShowAddTask(false);
-                                setNewTaskTitle('');
-                                setNewTaskDueDate('');
-                                setNewTaskWeight(1);
-                              }}
-                              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
-                            >
-                              Cancel
-                            </button>
-                          </div>
-                        </div>
-                      )}
-                    </div>
+                        )}
+                      </div>
+                    )}
 
                     {block.tasks && block.tasks.filter(isTaskVisible).map((task) => (
                       <div
@@ -1118,6 +1584,7 @@ export function TimelineDetail() {
                           type="checkbox"
                           checked={task.done}
                           onChange={() => handleTaskToggle(task)}
+                          disabled={!editable}
                           className="mt-1 w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer print:w-4 print:h-4"
                         />
                         <div className="flex-1">
@@ -1127,12 +1594,13 @@ export function TimelineDetail() {
                           <div className="task-meta flex items-center gap-2 mt-1">
                             <button
                               onClick={() => handleAssigneeChange(task)}
-                              className={`px-2 py-0.5 text-xs font-medium rounded transition-all hover:ring-2 hover:ring-offset-1 ${getAssigneeColor(task.assignee)} ${
+                              disabled={!editable}
+                              className={`px-2 py-0.5 text-xs font-medium rounded transition-all enabled:hover:ring-2 enabled:hover:ring-offset-1 ${getAssigneeColor(task.assignee)} ${
                                 task.assignee === 'client' ? 'hover:ring-blue-300' :
                                 task.assignee === 'js' ? 'hover:ring-purple-300' :
                                 'hover:ring-green-300'
-                              } cursor-pointer print:cursor-default`}
-                              title="Click to change assignee"
+                              } cursor-pointer disabled:cursor-default print:cursor-default`}
+                              title={editable ? 'Click to change assignee' : undefined}
                             >
                               {task.assignee}
                             </button>
@@ -1147,14 +1615,16 @@ export function TimelineDetail() {
                                 Due: {new Date(task.due_date).toLocaleDateString()}
                               </span>
                             )}
+                            <CompletedBy task={task} />
                             <button
                               onClick={() => handleTaskLockToggle(task)}
+                              disabled={!editable}
                               className={`ml-auto p-1 rounded transition-colors ${
                                 task.locked
-                                  ? 'text-orange-600 hover:bg-orange-100'
-                                  : 'text-gray-400 hover:bg-gray-100'
-                              }`}
-                              title={task.locked ? 'Task locked (won\'t be recalculated)' : 'Click to lock task'}
+                                  ? 'text-orange-600 enabled:hover:bg-orange-100'
+                                  : 'text-gray-400 enabled:hover:bg-gray-100'
+                              } disabled:cursor-default`}
+                              title={task.locked ? 'Task locked (won\'t be recalculated)' : editable ? 'Click to lock task' : 'Task not locked'}
                             >
                               {task.locked ? <Lock size={14} /> : <Unlock size={14} />}
                             </button>
@@ -1171,6 +1641,36 @@ export function TimelineDetail() {
       </div>
       </div>
 
+      {timingTask && (
+        <TaskTimingEditor
+          task={timingTask}
+          saving={savingTiming}
+          error={timingError}
+          onSave={handleSaveTiming}
+          onClose={() => setTimingTask(null)}
+        />
+      )}
+
+      {dependencyTask && timeline.blocks && (
+        <DependencyEditor
+          task={dependencyTask}
+          blocks={timeline.blocks}
+          saving={savingDependencies}
+          error={dependencyError}
+          onSave={handleSaveDependencies}
+          onClose={() => setDependencyTask(null)}
+        />
+      )}
+
+      {recalcPreview && (
+        <RecalculationPreview
+          preview={recalcPreview.result}
+          applying={applyingRecalc}
+          onApply={editable ? applyRecalculation : undefined}
+          onCancel={() => setRecalcPreview(null)}
+        />
+      )}
+
       {showUpdateConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
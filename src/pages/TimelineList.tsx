@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
-import { Calendar, MapPin, ExternalLink, Upload } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Calendar, ListTodo, MapPin, ExternalLink, Upload } from 'lucide-react';
+import { authHeaders, supabase } from '../lib/supabase';
 import { BRAND } from '../config/brand';
+import { StaffMenu } from '../components/StaffMenu';
 import { calculateCountdown } from '../utils/countdown';
 import { trafficLight, trafficLabel } from '../utils/trafficLight';
 import type { Timeline } from '../types';
@@ -62,7 +63,7 @@ export function TimelineList() {
       const result = await fetch(apiUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          ...(await authHeaders()),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ templates }),
@@ -101,7 +102,7 @@ export function TimelineList() {
           const result = await fetch(apiUrl, {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+              ...(await authHeaders()),
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
@@ -166,7 +167,7 @@ export function TimelineList() {
     <div className="min-h-screen bg-gray-50">
       <header className="app-header bg-white border-b border-gray-200 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center h-14">
+          <div className="flex items-center justify-between h-14">
             <a href="/" className="brand flex items-center">
               <img
                 id="brand-logo"
@@ -176,6 +177,7 @@ export function TimelineList() {
                 style={{ imageRendering: '-webkit-optimize-contrast' }}
               />
             </a>
+            <StaffMenu />
           </div>
         </div>
       </header>
@@ -187,6 +189,13 @@ export function TimelineList() {
             <p className="text-gray-600 mt-1">Manage all your event planning timelines</p>
           </div>
           <div className="flex gap-3">
+            <a
+              href="/agenda"
+              className="flex items-center gap-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              <ListTodo size={18} />
+              Agenda
+            </a>
             <button
               onClick={handleSeedTemplates}
               disabled={seedLoading || createLoading}
@@ -1,6 +1,9 @@
 export type EventType = 'wedding' | 'bar_mitzvah' | 'bat_mitzvah' | 'party';
 export type Assignee = 'client' | 'js' | 'joint';
+export type ScheduleMode = 'monthly' | 'weekly';
+export type CrossBlockDependencyMode = 'extend' | 'report';
 export type AuditAction = 'check' | 'uncheck' | 'edit' | 'create';
+export type StaffRole = 'owner' | 'planner' | 'read_only';
 
 export interface Event {
   id: string;
@@ -9,10 +12,18 @@ export interface Event {
   date?: string;
   venue?: string;
   type: EventType;
+  date_sequence?: number;
+  source_version?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface WorkingCalendar {
+  workingDays?: number[];
+  blackoutDates?: string[];
+  holidaySets?: string[];
+}
+
 export interface Timeline {
   id: string;
   event_id: string;
@@ -25,9 +36,12 @@ export interface Timeline {
   scale_factor?: string;
   allow_client_task_create?: boolean;
   include_general_in_totals?: boolean;
+  working_calendar?: WorkingCalendar | null;
+  schedule_mode?: ScheduleMode;
   event?: Event;
   blocks?: Block[];
   progress?: number;
+  share_link?: Pick<ShareLink, 'label' | 'display_name' | 'email' | 'read_only' | 'expires_at'>;
 }
 
 export interface Block {
@@ -38,6 +52,8 @@ export interface Block {
   order: number;
   start_date?: string;
   end_date?: string;
+  months_before_start?: number;
+  months_before_end?: number;
   created_at: string;
   is_general?: boolean;
   tasks?: Task[];
@@ -53,22 +69,44 @@ export interface Task {
   weight: number;
   is_skeleton: boolean;
   due_date?: string;
+  due_date_sequence?: number;
+  start_date?: string | null;
+  duration_days?: number | null;
+  min_lead_days_before_event?: number | null;
   done: boolean;
   done_by?: string;
   done_at?: string;
   locked?: boolean;
   depends_on_task_ids?: string[];
   overdue_on_original_plan?: boolean;
+  week_offset?: number | null;
+  needs_review?: boolean;
   order: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface StaffMember {
+  user_id: string;
+  email: string;
+  display_name?: string | null;
+  role: StaffRole;
+  created_at: string;
+}
+
 export interface ShareLink {
   id: string;
   timeline_id: string;
   token: string;
+  short_code: string;
+  label?: string | null;
+  display_name?: string | null;
+  email?: string | null;
+  read_only?: boolean;
   expires_at: string;
+  revoked_at?: string | null;
+  last_accessed_at?: string | null;
+  access_count?: number;
   created_at: string;
 }
 
@@ -82,6 +120,83 @@ export interface AuditEntry {
   timestamp: string;
 }
 
+export type Distribution = 'frontload' | 'balanced' | 'even';
+
+export interface RecalculationOptions {
+  respectLocks?: boolean;
+  distribution?: Distribution;
+  graceDays?: number;
+  todayISO?: string;
+  dryRun?: boolean;
+  capacity?: Partial<Record<Assignee, number>>;
+  crossBlockDependencies?: CrossBlockDependencyMode;
+}
+
+export interface RecalculatedBlock {
+  id: string;
+  title: string;
+  before: { start_date: string | null; end_date: string | null };
+  after: { start_date: string | null; end_date: string | null };
+}
+
+export interface RecalculatedTask {
+  id: string;
+  block_id: string;
+  title: string;
+  locked: boolean;
+  skipped: boolean;
+  before: string | null;
+  after: string | null;
+  start_before: string | null;
+  start_after: string | null;
+  overdue_on_original_plan: boolean;
+  was_overdue_on_original_plan: boolean;
+  week_offset: number | null;
+  needs_review: boolean;
+}
+
+export interface RecalculationResult {
+  success: boolean;
+  dry_run: boolean;
+  snapshot_id: string | null;
+  updated: number;
+  skipped_locked: number;
+  scale_factor: number;
+  lead_time_months: number;
+  schedule_mode: ScheduleMode;
+  needs_review: number;
+  dependency_conflicts: Array<{
+    task_id: string;
+    depends_on_task_id: string;
+    due_date: string;
+    dependency_due_date: string;
+  }>;
+  notes: string[];
+  blocks: RecalculatedBlock[];
+  tasks: RecalculatedTask[];
+}
+
+export interface RecalculationSnapshot {
+  id: string;
+  timeline_id: string;
+  audit_entry_id?: string;
+  blocks: Array<{ id: string; start_date: string | null; end_date: string | null }>;
+  tasks: Array<{
+    id: string;
+    due_date: string | null;
+    start_date?: string | null;
+    overdue_on_original_plan: boolean;
+    week_offset?: number | null;
+    needs_review?: boolean;
+  }>;
+  last_recalculated_at?: string;
+  scale_factor?: number;
+  schedule_mode?: ScheduleMode;
+  options: RecalculationOptions;
+  created_at: string;
+  restored_at?: string;
+}
+
 export interface ProgressStats {
   totalTasks: number;
   completedTasks: number;
@@ -0,0 +1,18 @@
+export function getAssigneeColor(assignee: string): string {
+  switch (assignee) {
+    case 'client':
+      return 'bg-blue-100 text-blue-700';
+    case 'js':
+      return 'bg-purple-100 text-purple-700';
+    case 'joint':
+      return 'bg-green-100 text-green-700';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+// Clients may tick off their own and joint tasks; JustSeventy tasks are read-only
+// in the client portal.
+export function canClientToggle(assignee: string): boolean {
+  return assignee === 'client' || assignee === 'joint';
+}
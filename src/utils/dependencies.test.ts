@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { computeCriticalPath, findDependencyCycle, topologicalOrder, type DependencyTask } from './dependencies';
+
+function task(id: string, dependsOn: string[] = [], overrides: Partial<DependencyTask> = {}): DependencyTask {
+  return { id, is_skeleton: false, depends_on_task_ids: dependsOn, ...overrides };
+}
+
+describe('findDependencyCycle', () => {
+  it('returns null for an acyclic graph', () => {
+    expect(findDependencyCycle([task('a'), task('b', ['a']), task('c', ['a', 'b'])])).toBeNull();
+  });
+
+  it('returns the cycle with the first id repeated at the end', () => {
+    expect(findDependencyCycle([task('a', ['b']), task('b', ['a'])])).toEqual(['a', 'b', 'a']);
+  });
+
+  it('finds a cycle that does not include the first task', () => {
+    const cycle = findDependencyCycle([task('a', ['b']), task('b', ['c']), task('c', ['d']), task('d', ['b'])]);
+    expect(cycle).toEqual(['b', 'c', 'd', 'b']);
+  });
+
+  it('treats a task depending on itself as a cycle', () => {
+    expect(findDependencyCycle([task('a', ['a'])])).toEqual(['a', 'a']);
+  });
+
+  it('ignores unknown ids', () => {
+    expect(findDependencyCycle([task('a', ['missing'])])).toBeNull();
+  });
+
+  it('catches the cycle an edit would create, as the timelines function checks it', () => {
+    const tasks = [task('a'), task('b', ['a']), task('c', ['b'])];
+    const edited = tasks.map(t => (t.id === 'a' ? { ...t, depends_on_task_ids: ['c'] } : t));
+    expect(findDependencyCycle(edited)).toEqual(['a', 'c', 'b', 'a']);
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('puts dependencies before their dependents', () => {
+    const ordered = topologicalOrder([task('c', ['b']), task('b', ['a']), task('a')]).map(t => t.id);
+    expect(ordered).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps every task exactly once when there is a cycle', () => {
+    const ordered = topologicalOrder([task('a', ['b']), task('b', ['a']), task('c')]).map(t => t.id);
+    expect(ordered.sort()).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('computeCriticalPath', () => {
+  it('returns the longest chain of incomplete tasks, earliest first', () => {
+    const { path } = computeCriticalPath([
+      task('a', [], { due_date: '2026-01-05' }),
+      task('b', ['a'], { due_date: '2026-02-02' }),
+      task('c', ['b'], { due_date: '2026-03-02' }),
+      task('d', ['a'], { due_date: '2026-04-06' }),
+    ]);
+    expect(path).toEqual(['a', 'b', 'c']);
+  });
+
+  it('breaks ties in favour of the chain ending latest', () => {
+    const { path } = computeCriticalPath([
+      task('a', [], { due_date: '2026-01-05' }),
+      task('b', ['a'], { due_date: '2026-02-02' }),
+      task('c', ['a'], { due_date: '2026-03-02' }),
+    ]);
+    expect(path).toEqual(['a', 'c']);
+  });
+
+  it('skips completed tasks', () => {
+    const { path } = computeCriticalPath([
+      task('a', [], { done: true }),
+      task('b', ['a']),
+      task('c', ['b']),
+    ]);
+    expect(path).toEqual(['b', 'c']);
+  });
+
+  it('does not report a single task as a path', () => {
+    expect(computeCriticalPath([task('a'), task('b')]).path).toEqual([]);
+  });
+
+  it('maps each task to the incomplete key tasks waiting on it', () => {
+    const { blocking } = computeCriticalPath([
+      task('a'),
+      task('b', ['a']),
+      task('key', ['b'], { is_skeleton: true }),
+      task('other', ['a']),
+    ]);
+    expect(blocking.get('a')).toEqual(['key']);
+    expect(blocking.get('b')).toEqual(['key']);
+    expect(blocking.has('other')).toBe(false);
+  });
+
+  it('does not report completed key tasks as blocked', () => {
+    const { blocking } = computeCriticalPath([
+      task('a'),
+      task('key', ['a'], { is_skeleton: true, done: true }),
+    ]);
+    expect(blocking.size).toBe(0);
+  });
+});
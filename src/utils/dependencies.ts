@@ -0,0 +1,125 @@
+// Task dependency graph helpers, shared by the Vite app and the edge functions
+// (like scheduling.ts, no dependencies and no runtime imports).
+
+export interface DependencyTask {
+  id: string;
+  is_skeleton: boolean;
+  done?: boolean;
+  due_date?: string | null;
+  depends_on_task_ids?: string[] | null;
+}
+
+export interface CriticalPath {
+  // Longest chain of incomplete tasks through dependencies, earliest first. Its
+  // last task is the one the event date ultimately waits on.
+  path: string[];
+  // Incomplete task id → incomplete skeleton tasks that (transitively) depend on it.
+  blocking: Map<string, string[]>;
+}
+
+// Returns the task ids of one cycle, each depending on the next and the first id
+// repeated at the end (["a", "b", "a"]), or null when the graph is acyclic.
+// Unknown ids are ignored.
+export function findDependencyCycle(tasks: DependencyTask[]): string[] | null {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...stack.slice(stack.indexOf(id)), id];
+
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const depId of byId.get(id)?.depends_on_task_ids || []) {
+      if (!byId.has(depId)) continue;
+      const cycle = visit(depId);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Dependencies before dependents. A cycle is broken where it is first met, so
+// every task still appears exactly once.
+export function topologicalOrder<T extends DependencyTask>(tasks: T[]): T[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const visited = new Set<string>();
+  const ordered: T[] = [];
+
+  const visit = (task: T, path: Set<string>) => {
+    if (visited.has(task.id) || path.has(task.id)) return;
+    path.add(task.id);
+    (task.depends_on_task_ids || []).forEach(depId => {
+      const dep = byId.get(depId);
+      if (dep) visit(dep, path);
+    });
+    path.delete(task.id);
+    visited.add(task.id);
+    ordered.push(task);
+  };
+
+  tasks.forEach(task => visit(task, new Set()));
+  return ordered;
+}
+
+export function computeCriticalPath(tasks: DependencyTask[]): CriticalPath {
+  const incomplete = tasks.filter(task => !task.done);
+  const byId = new Map(incomplete.map(task => [task.id, task]));
+  const ordered = topologicalOrder(incomplete);
+
+  // Longest chain ending at each task; ties go to the chain ending latest.
+  const chainLength = new Map<string, number>();
+  const previous = new Map<string, string>();
+  ordered.forEach(task => {
+    let best = 0;
+    (task.depends_on_task_ids || []).forEach(depId => {
+      const length = chainLength.get(depId);
+      if (length === undefined || !byId.has(depId)) return;
+      const current = previous.get(task.id);
+      const later = current && (byId.get(depId)!.due_date || '') > (byId.get(current)!.due_date || '');
+      if (length > best || (length === best && later)) {
+        best = length;
+        previous.set(task.id, depId);
+      }
+    });
+    chainLength.set(task.id, best + 1);
+  });
+
+  const end = ordered.reduce<DependencyTask | null>((best, task) => {
+    if (!best) return task;
+    const length = chainLength.get(task.id)!;
+    const bestLength = chainLength.get(best.id)!;
+    return length > bestLength || (length === bestLength && (task.due_date || '') > (best.due_date || ''))
+      ? task
+      : best;
+  }, null);
+
+  const path: string[] = [];
+  for (let id = end?.id; id; id = previous.get(id)) path.unshift(id);
+
+  const blocking = new Map<string, string[]>();
+  incomplete.filter(task => task.is_skeleton).forEach(skeleton => {
+    const seen = new Set<string>();
+    const walk = (id: string) => {
+      (byId.get(id)?.depends_on_task_ids || []).forEach(depId => {
+        if (seen.has(depId) || !byId.has(depId)) return;
+        seen.add(depId);
+        blocking.set(depId, [...(blocking.get(depId) || []), skeleton.id]);
+        walk(depId);
+      });
+    };
+    walk(skeleton.id);
+  });
+
+  // A single task with no dependencies is not a path worth highlighting.
+  return { path: path.length > 1 ? path : [], blocking };
+}
@@ -0,0 +1,601 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateLeadTimeMonths,
+  calculateScaleFactor,
+  parseDate,
+  recalcTimelineDates,
+  resolveWorkingCalendar,
+  startOfWeek,
+  toISODate,
+  weekOffsetBefore,
+  type ScheduleBlock,
+  type ScheduleTask,
+} from './scheduling';
+
+// Scenarios from RECALIBRATION_TEST_PLAN.md, run against a fixed `todayISO`.
+
+const TODAY = '2025-10-03';
+const EVENT = '2026-10-03';
+
+const BLOCKS: ScheduleBlock[] = [
+  { id: '12m', monthsBeforeStart: 12, monthsBeforeEnd: 10 },
+  { id: '4-6m', monthsBeforeStart: 6, monthsBeforeEnd: 4 },
+  { id: '2w', monthsBeforeStart: 0.5, monthsBeforeEnd: 0 },
+];
+
+function task(id: string, blockId: string, overrides: Partial<ScheduleTask> = {}): ScheduleTask {
+  return { id, block_id: blockId, title: id, assignee: 'client', is_skeleton: false, weight: 1, ...overrides };
+}
+
+function tasksIn(blockId: string, count: number, overrides: Partial<ScheduleTask> = {}): ScheduleTask[] {
+  return Array.from({ length: count }, (_, i) => task(`${blockId}-${i + 1}`, blockId, overrides));
+}
+
+function dueDates(result: ReturnType<typeof recalcTimelineDates>): Map<string, string> {
+  return new Map(result.tasks.map(t => [t.id, t.due_date]));
+}
+
+function weekOf(iso: string): string {
+  return toISODate(startOfWeek(parseDate(iso)));
+}
+
+const isMonday = (iso: string) => parseDate(iso).getUTCDay() === 1;
+
+describe('scale factor', () => {
+  it.each([
+    ['12 months', '2026-10-03', 1],
+    ['6 months', '2026-04-03', 0.5],
+    ['18 months', '2027-04-03', 1.5],
+    ['a past event', '2025-09-01', 0],
+    ['the event today', TODAY, 0],
+    ['more than two years', '2029-10-03', 2],
+  ])('is lead time / 12 for %s, clamped to [0, 2]', (_, eventDate, expected) => {
+    const { result } = recalcTimelineDates({ eventDateISO: eventDate, todayISO: TODAY, blocks: BLOCKS, tasks: [] });
+    expect(result.scaleFactor).toBe(expected);
+  });
+
+  it('uses 30.437 days per month', () => {
+    expect(calculateLeadTimeMonths('2026-10-03', TODAY)).toBeCloseTo(365 / 30.437, 6);
+    expect(calculateScaleFactor(30)).toBe(2);
+  });
+});
+
+describe('block windows', () => {
+  it('start and end on Mondays', () => {
+    const { blocks } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks: [] });
+    blocks.forEach(block => {
+      expect(isMonday(block.start_date)).toBe(true);
+      expect(isMonday(block.end_date)).toBe(true);
+    });
+  });
+
+  it('match the canonical offsets at a 12-month lead time', () => {
+    const { blocks } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks: [] });
+    const twelve = blocks.find(block => block.id === '12m')!;
+    expect(twelve.start_date).toBe('2025-09-29');
+    expect(twelve.end_date).toBe('2025-12-01');
+  });
+
+  it('are compressed in proportion to the lead time', () => {
+    const span = (eventDate: string) => {
+      const { blocks } = recalcTimelineDates({ eventDateISO: eventDate, todayISO: TODAY, blocks: BLOCKS, tasks: [] });
+      const twelve = blocks.find(block => block.id === '12m')!;
+      return (parseDate(twelve.end_date).getTime() - parseDate(twelve.start_date).getTime()) / 86400000;
+    };
+    expect(span('2026-04-03')).toBeLessThan(span(EVENT));
+    expect(span('2027-04-03')).toBeGreaterThan(span(EVENT));
+  });
+});
+
+describe('monthly and weekly mode', () => {
+  it('switches to weekly below two months of lead time', () => {
+    const mode = (eventDate: string) =>
+      recalcTimelineDates({ eventDateISO: eventDate, todayISO: '2026-10-19', blocks: BLOCKS, tasks: [] }).result.scheduleMode;
+
+    // Two months is 60.9 days.
+    expect(mode('2026-12-18')).toBe('weekly');
+    expect(mode('2026-12-19')).toBe('monthly');
+    expect(mode('2027-04-19')).toBe('monthly');
+  });
+
+  it('plans weeks -6 to -1 and flags non-essential tasks for review', () => {
+    const locked = task('locked', '4-6m', { locked: true, due_date: '2026-11-02' });
+    const tasks = [
+      ...tasksIn('12m', 4, { is_skeleton: true, weight: 3 }),
+      ...tasksIn('4-6m', 6),
+      locked,
+      ...tasksIn('2w', 3),
+    ];
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: '2026-11-28',
+      todayISO: '2026-10-19',
+      blocks: BLOCKS,
+      tasks,
+    });
+
+    expect(result.scheduleMode).toBe('weekly');
+    scheduled.forEach(entry => {
+      expect(entry.week_offset).toBeGreaterThanOrEqual(-6);
+      expect(entry.week_offset).toBeLessThanOrEqual(-1);
+    });
+
+    const byId = new Map(scheduled.map(entry => [entry.id, entry]));
+    tasks.filter(t => t.is_skeleton).forEach(t => expect(byId.get(t.id)!.needs_review).toBeUndefined());
+    tasks.filter(t => !t.is_skeleton && !t.locked).forEach(t => expect(byId.get(t.id)!.needs_review).toBe(true));
+
+    expect(byId.get('locked')).toMatchObject({ due_date: '2026-11-02', week_offset: -4 });
+    expect(result.skippedLocked).toBe(1);
+    expect(result.notes).toContain('Weekly mode: 6 weeks until the event, 9 non-essential tasks flagged for review');
+  });
+
+  it('places tasks in block order', () => {
+    const tasks = [...tasksIn('12m', 3), ...tasksIn('4-6m', 3), ...tasksIn('2w', 3)];
+    const due = dueDates(recalcTimelineDates({ eventDateISO: '2026-11-28', todayISO: '2026-10-19', blocks: BLOCKS, tasks }));
+    expect(due.get('12m-3')! <= due.get('4-6m-1')!).toBe(true);
+    expect(due.get('4-6m-3')! <= due.get('2w-1')!).toBe(true);
+  });
+
+  it('gives skeleton tasks the earliest days of each week', () => {
+    const tasks = [...tasksIn('4-6m', 12), ...tasksIn('2w', 3, { is_skeleton: true, weight: 3 })];
+    const { tasks: scheduled } = recalcTimelineDates({
+      eventDateISO: '2026-11-28',
+      todayISO: '2026-10-19',
+      blocks: BLOCKS,
+      tasks,
+    });
+    const skeletonIds = new Set(tasks.filter(t => t.is_skeleton).map(t => t.id));
+
+    scheduled.filter(entry => skeletonIds.has(entry.id)).forEach(skeleton => {
+      scheduled
+        .filter(entry => !skeletonIds.has(entry.id) && entry.week_offset === skeleton.week_offset)
+        .forEach(other => expect(skeleton.due_date <= other.due_date).toBe(true));
+    });
+    expect(new Set(scheduled.filter(entry => skeletonIds.has(entry.id)).map(entry => entry.week_offset)).size).toBe(3);
+  });
+
+  it('numbers weeks back from the week before the event', () => {
+    // The event is on a Saturday, so Week -1 runs from Monday 2026-11-23.
+    expect(weekOffsetBefore('2026-11-28', '2026-11-27')).toBe(-1);
+    expect(weekOffsetBefore('2026-11-28', '2026-11-23')).toBe(-1);
+    expect(weekOffsetBefore('2026-11-28', '2026-11-22')).toBe(-2);
+    expect(weekOffsetBefore('2026-11-28', '2026-10-19')).toBe(-6);
+  });
+});
+
+describe('locked tasks', () => {
+  it('stay put and split their block into spans', () => {
+    const tasks = [
+      task('a', '12m', { locked: true, due_date: '2025-10-20' }),
+      task('b', '12m', { locked: true, due_date: '2025-11-10' }),
+      ...tasksIn('12m', 10),
+    ];
+    const { tasks: scheduled, result } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks });
+    const due = dueDates({ tasks: scheduled, blocks: [], result });
+
+    expect(result.skippedLocked).toBe(2);
+    expect(due.get('a')).toBe('2025-10-20');
+    expect(due.get('b')).toBe('2025-11-10');
+
+    const unlocked = tasksIn('12m', 10).map(t => due.get(t.id)!);
+    expect(unlocked).not.toContain('2025-10-20');
+    expect(unlocked).not.toContain('2025-11-10');
+    expect(unlocked.some(date => date < '2025-10-20')).toBe(true);
+    expect(unlocked.some(date => date > '2025-10-20' && date < '2025-11-10')).toBe(true);
+    expect(unlocked.some(date => date > '2025-11-10')).toBe(true);
+  });
+
+  it('are moved like any other task when respectLocks is off', () => {
+    const tasks = [task('a', '12m', { locked: true, due_date: '2025-12-31' })];
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      respectLocks: false,
+    });
+    expect(result.skippedLocked).toBe(0);
+    expect(scheduled[0].due_date).not.toBe('2025-12-31');
+  });
+});
+
+describe('overdue handling', () => {
+  it('pushes every task of a past event to today + grace days', () => {
+    const tasks = [...tasksIn('12m', 3), ...tasksIn('2w', 2)];
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: '2025-09-01',
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+    });
+
+    expect(result.scaleFactor).toBe(0);
+    expect(result.notes).toContain('Compressed schedule: event date has passed');
+    scheduled.forEach(entry => {
+      expect(entry.due_date).toBe('2025-10-05');
+      expect(entry.overdue_on_original_plan).toBe(true);
+    });
+  });
+});
+
+describe('distribution', () => {
+  it('frontload puts the first half of the tasks in the first quarter of the span', () => {
+    const tasks = tasksIn('4-6m', 10);
+    const { tasks: scheduled, blocks } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks });
+    const win = blocks.find(block => block.id === '4-6m')!;
+    const start = parseDate(win.start_date).getTime();
+    const spanDays = (parseDate(win.end_date).getTime() - start) / 86400000;
+    const offsets = scheduled.map(entry => (parseDate(entry.due_date).getTime() - start) / 86400000).sort((a, b) => a - b);
+
+    offsets.slice(0, 5).forEach(offset => expect(offset).toBeLessThanOrEqual(Math.round(spanDays / 4)));
+  });
+
+  it('even spaces tasks uniformly from the start to the end of the span', () => {
+    const tasks = tasksIn('4-6m', 5);
+    const { tasks: scheduled, blocks } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      distribution: 'even',
+    });
+    const win = blocks.find(block => block.id === '4-6m')!;
+    const dates = scheduled.map(entry => entry.due_date).sort();
+    expect(dates[0]).toBe(win.start_date);
+    expect(dates[dates.length - 1]).toBe(win.end_date);
+
+    const gaps = dates.slice(1).map((date, i) => (parseDate(date).getTime() - parseDate(dates[i]).getTime()) / 86400000);
+    expect(Math.max(...gaps) - Math.min(...gaps)).toBeLessThanOrEqual(1);
+  });
+
+  it('balanced keeps weekly weight within one task of the average and staggers skeleton tasks', () => {
+    const tasks = [
+      ...Array.from({ length: 3 }, (_, i) => task(`key-${i + 1}`, '4-6m', { is_skeleton: true, weight: 3 })),
+      ...tasksIn('4-6m', 12),
+    ];
+    const { tasks: scheduled, blocks } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      distribution: 'balanced',
+    });
+    const win = blocks.find(block => block.id === '4-6m')!;
+    const due = new Map(scheduled.map(entry => [entry.id, entry.due_date]));
+
+    const load = new Map<string, number>();
+    tasks.forEach(t => {
+      const week = weekOf(due.get(t.id)!);
+      load.set(week, (load.get(week) ?? 0) + t.weight);
+    });
+    const weeks = Array.from(load.values());
+    const totalWeeks = (parseDate(win.end_date).getTime() - parseDate(win.start_date).getTime()) / (7 * 86400000) + 1;
+    const average = tasks.reduce((sum, t) => sum + t.weight, 0) / totalWeeks;
+    weeks.forEach(weight => expect(Math.abs(weight - average)).toBeLessThanOrEqual(3));
+
+    const skeletonWeeks = tasks.filter(t => t.is_skeleton).map(t => weekOf(due.get(t.id)!));
+    expect(new Set(skeletonWeeks).size).toBe(skeletonWeeks.length);
+  });
+
+  it('balanced spreads weight where even spreads count', () => {
+    const tasks = [
+      task('heavy-1', '4-6m', { weight: 5 }),
+      task('heavy-2', '4-6m', { weight: 5 }),
+      ...tasksIn('4-6m', 10),
+    ];
+    const weekLoads = (distribution: 'balanced' | 'even') => {
+      const due = dueDates(recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks, distribution }));
+      const load = new Map<string, number>();
+      tasks.forEach(t => {
+        const week = weekOf(due.get(t.id)!);
+        load.set(week, (load.get(week) ?? 0) + t.weight);
+      });
+      return { due, load };
+    };
+
+    const balanced = weekLoads('balanced');
+    ['heavy-1', 'heavy-2'].forEach(id => expect(balanced.load.get(weekOf(balanced.due.get(id)!))).toBe(5));
+    expect(Math.max(...balanced.load.values())).toBe(5);
+    expect(Math.max(...weekLoads('even').load.values())).toBeGreaterThan(5);
+  });
+});
+
+describe('dependencies', () => {
+  it('keep each task at least a day after the task it depends on', () => {
+    const tasks = [
+      task('c', '12m', { depends_on_task_ids: ['b'] }),
+      task('b', '12m', { depends_on_task_ids: ['a'] }),
+      task('a', '12m', { is_skeleton: true, weight: 3 }),
+    ];
+    const due = dueDates(recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks }));
+    expect(due.get('b')! > due.get('a')!).toBe(true);
+    expect(due.get('c')! > due.get('b')!).toBe(true);
+  });
+
+  const crossBlock = () => [
+    task('early', '12m', { depends_on_task_ids: ['late'] }),
+    task('late', '4-6m'),
+  ];
+
+  it('extend moves a task after a dependency in a later block and extends its window', () => {
+    const { tasks: scheduled, blocks, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: crossBlock(),
+      crossBlockDependencies: 'extend',
+    });
+    const due = new Map(scheduled.map(entry => [entry.id, entry.due_date]));
+    const dayAfter = toISODate(new Date(parseDate(due.get('late')!).getTime() + 86400000));
+
+    expect(due.get('early')).toBe(dayAfter);
+    expect(blocks.find(block => block.id === '12m')!.end_date).toBe(dayAfter);
+    expect(result.conflicts).toEqual([]);
+    expect(result.notes.some(note => note.startsWith('Extended a block window'))).toBe(true);
+  });
+
+  it('report leaves the task in its block and lists the conflict', () => {
+    const { tasks: scheduled, blocks, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: crossBlock(),
+      crossBlockDependencies: 'report',
+    });
+    const due = new Map(scheduled.map(entry => [entry.id, entry.due_date]));
+    const twelve = blocks.find(block => block.id === '12m')!;
+
+    expect(due.get('early')! <= twelve.end_date).toBe(true);
+    expect(result.conflicts).toEqual([{
+      taskId: 'early',
+      dependsOnTaskId: 'late',
+      dueDate: due.get('early'),
+      dependencyDueDate: due.get('late'),
+    }]);
+    expect(result.notes.some(note => note.startsWith('Dependency conflict'))).toBe(true);
+  });
+
+  it('always reports a locked dependent task instead of moving it', () => {
+    const tasks = [
+      task('early', '12m', { locked: true, due_date: '2025-10-20', depends_on_task_ids: ['late'] }),
+      task('late', '4-6m'),
+    ];
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      crossBlockDependencies: 'extend',
+    });
+    expect(scheduled.find(entry => entry.id === 'early')!.due_date).toBe('2025-10-20');
+    expect(result.conflicts.map(conflict => conflict.taskId)).toEqual(['early']);
+  });
+
+  it('leave block windows alone when a dependency in an earlier block is already met', () => {
+    const tasks = [task('early', '12m'), task('late', '4-6m', { depends_on_task_ids: ['early'] })];
+    const { blocks, result } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks });
+    const { blocks: withoutDependency } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: tasks.map(t => ({ ...t, depends_on_task_ids: [] })),
+    });
+
+    expect(blocks).toEqual(withoutDependency);
+    expect(result.conflicts).toEqual([]);
+    expect(result.notes.some(note => note.startsWith('Extended a block window'))).toBe(false);
+  });
+
+  it('extend reports a conflict when the task would have to move past the event', () => {
+    const tasks = [
+      task('early', '12m', { depends_on_task_ids: ['late'] }),
+      task('late', '2w', { locked: true, due_date: '2026-10-02' }),
+    ];
+    const { result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      crossBlockDependencies: 'extend',
+    });
+    expect(result.conflicts.map(conflict => [conflict.taskId, conflict.dependsOnTaskId])).toEqual([['early', 'late']]);
+  });
+
+  it('notes a dependency cycle', () => {
+    const tasks = [
+      task('a', '12m', { depends_on_task_ids: ['b'] }),
+      task('b', '12m', { depends_on_task_ids: ['a'] }),
+    ];
+    const { result } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks });
+    expect(result.notes).toContain('Dependency cycle, dates may not respect it: a → b → a');
+  });
+});
+
+describe('capacity leveling', () => {
+  const tasks = [
+    ...tasksIn('12m', 8, { assignee: 'client' }),
+    ...Array.from({ length: 4 }, (_, i) => task(`js-${i + 1}`, '12m', { assignee: 'js' })),
+  ];
+
+  it('keeps each assignee within their weekly limit', () => {
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      capacity: { client: 2 },
+    });
+    const due = new Map(scheduled.map(entry => [entry.id, entry.due_date]));
+
+    const load = new Map<string, number>();
+    tasks.filter(t => t.assignee === 'client').forEach(t => {
+      const week = weekOf(due.get(t.id)!);
+      load.set(week, (load.get(week) ?? 0) + t.weight);
+    });
+    load.forEach((weight, week) => {
+      if (weight > 2) {
+        expect(result.notes).toContain(`Capacity: client has weight ${weight} in the week of ${week} (limit 2)`);
+      }
+    });
+    expect(Array.from(load.values()).every(weight => weight <= 2)).toBe(true);
+  });
+
+  it('leaves other assignees where they would be without a limit', () => {
+    const withLimit = dueDates(recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks,
+      capacity: { client: 2 },
+    }));
+    const without = dueDates(recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks }));
+    tasks.filter(t => t.assignee === 'js').forEach(t => expect(withLimit.get(t.id)).toBe(without.get(t.id)));
+  });
+
+  it('never moves locked tasks', () => {
+    const locked = [
+      task('l1', '12m', { locked: true, due_date: '2025-10-06' }),
+      task('l2', '12m', { locked: true, due_date: '2025-10-07' }),
+      task('l3', '12m', { locked: true, due_date: '2025-10-08' }),
+    ];
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: locked,
+      capacity: { client: 2 },
+    });
+    expect(scheduled.map(entry => entry.due_date).sort()).toEqual(['2025-10-06', '2025-10-07', '2025-10-08']);
+    expect(result.notes).toContain('Capacity: client has weight 3 in the week of 2025-10-06 (limit 2)');
+  });
+
+  it('keeps tasks inside their block window and notes the weeks it cannot level', () => {
+    const crowded = tasksIn('2w', 10);
+    const { tasks: scheduled, blocks, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: crowded,
+      capacity: { client: 2 },
+    });
+    const win = blocks.find(block => block.id === '2w')!;
+
+    const load = new Map<string, number>();
+    scheduled.forEach(entry => {
+      expect(entry.due_date >= win.start_date && entry.due_date <= win.end_date).toBe(true);
+      load.set(weekOf(entry.due_date), (load.get(weekOf(entry.due_date)) ?? 0) + 1);
+    });
+    const overloaded = Array.from(load.entries()).filter(([, weight]) => weight > 2);
+    expect(overloaded.length).toBeGreaterThan(0);
+    expect(result.notes.filter(note => note.startsWith('Capacity:'))).toEqual(
+      overloaded.sort().map(([week, weight]) => `Capacity: client has weight ${weight} in the week of ${week} (limit 2)`)
+    );
+  });
+});
+
+describe('supplier lead time and duration', () => {
+  it('keeps the due date before the lead time and sets the start from the duration', () => {
+    const blocks: ScheduleBlock[] = [{ id: '1-2m', monthsBeforeStart: 2, monthsBeforeEnd: 1 }];
+    const tasks = [task('invites', '1-2m', { duration_days: 21, min_lead_days_before_event: 70 })];
+    const { tasks: scheduled } = recalcTimelineDates({
+      eventDateISO: '2027-06-01',
+      todayISO: '2026-10-19',
+      blocks,
+      tasks,
+    });
+
+    expect(scheduled[0].due_date <= '2027-03-23').toBe(true);
+    const start = toISODate(new Date(parseDate(scheduled[0].due_date).getTime() - 21 * 86400000));
+    expect(scheduled[0].start_date).toBe(start);
+  });
+
+  it('reports a lead time that can no longer be met', () => {
+    const blocks: ScheduleBlock[] = [{ id: '1-2m', monthsBeforeStart: 2, monthsBeforeEnd: 1 }];
+    const tasks = [task('invites', '1-2m', { duration_days: 21, min_lead_days_before_event: 70 })];
+    const { result } = recalcTimelineDates({ eventDateISO: '2026-12-20', todayISO: '2026-10-19', blocks, tasks });
+
+    expect(result.notes.some(note => note.startsWith('Lead time: "invites" should be due by 2026-10-11'))).toBe(true);
+  });
+
+  it('keeps the gap between an existing start date and due date when there is no duration', () => {
+    const tasks = [task('tasting', '4-6m', { start_date: '2026-04-01', due_date: '2026-04-15' })];
+    const { tasks: scheduled } = recalcTimelineDates({ eventDateISO: EVENT, todayISO: TODAY, blocks: BLOCKS, tasks });
+
+    const start = toISODate(new Date(parseDate(scheduled[0].due_date).getTime() - 14 * 86400000));
+    expect(scheduled[0].start_date).toBe(start);
+  });
+
+  it('notes a task whose duration means it should already have started', () => {
+    const tasks = [task('fittings', '2w', { duration_days: 60 })];
+    const { tasks: scheduled, result } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: '2026-09-01',
+      blocks: BLOCKS,
+      tasks,
+    });
+
+    expect(scheduled[0].start_date! < '2026-09-01').toBe(true);
+    expect(result.notes).toContain(
+      `Duration: "fittings" takes 60 days, so it should have started on ${scheduled[0].start_date}`
+    );
+  });
+});
+
+describe('working calendar', () => {
+  it('only schedules unlocked tasks on working days', () => {
+    const { tasks: scheduled } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: [...tasksIn('12m', 10), ...tasksIn('4-6m', 10)],
+      distribution: 'even',
+      calendar: { workingDays: [1, 2, 3, 4, 5], blackoutDates: ['2025-12-01'] },
+    });
+    scheduled.forEach(entry => {
+      expect([0, 6]).not.toContain(parseDate(entry.due_date).getUTCDay());
+      expect(entry.due_date).not.toBe('2025-12-01');
+    });
+  });
+
+  it('resolves holiday sets into blackout dates and defaults to Monday to Friday', () => {
+    const holidaySets = {
+      uk: { label: 'UK bank holidays', dates: ['2025-12-25', '2025-12-26'] },
+      jewish: { label: 'Jewish festivals', dates: ['2025-10-07', '2025-12-25'] },
+    };
+    expect(resolveWorkingCalendar(null, holidaySets)).toBeUndefined();
+    expect(resolveWorkingCalendar({ holidaySets: ['uk', 'jewish'], blackoutDates: ['2025-11-01'] }, holidaySets)).toEqual({
+      workingDays: [1, 2, 3, 4, 5],
+      blackoutDates: ['2025-10-07', '2025-11-01', '2025-12-25', '2025-12-26'],
+    });
+  });
+
+  it('keeps the frontload shape over the working days of the span', () => {
+    const { tasks: scheduled, blocks } = recalcTimelineDates({
+      eventDateISO: EVENT,
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: tasksIn('4-6m', 10),
+      calendar: { workingDays: [1, 2, 3, 4, 5], blackoutDates: [] },
+    });
+    const win = blocks.find(block => block.id === '4-6m')!;
+    const workingDays: string[] = [];
+    for (let day = parseDate(win.start_date); day <= parseDate(win.end_date); day = new Date(day.getTime() + 86400000)) {
+      if (![0, 6].includes(day.getUTCDay())) workingDays.push(toISODate(day));
+    }
+    const positions = scheduled.map(entry => workingDays.indexOf(entry.due_date)).sort((a, b) => a - b);
+
+    expect(positions).not.toContain(-1);
+    positions.slice(0, 5).forEach(position => expect(position).toBeLessThanOrEqual(Math.round((workingDays.length - 1) / 4)));
+  });
+
+  it('moves an overdue task off a weekend to the next working day', () => {
+    // Today is a Friday, so today + 2 grace days is a Sunday.
+    const { tasks: scheduled } = recalcTimelineDates({
+      eventDateISO: '2025-09-01',
+      todayISO: TODAY,
+      blocks: BLOCKS,
+      tasks: tasksIn('12m', 2),
+      calendar: { workingDays: [1, 2, 3, 4, 5], blackoutDates: [] },
+    });
+    scheduled.forEach(entry => expect(entry.due_date).toBe('2025-10-06'));
+  });
+});
@@ -0,0 +1,742 @@
+import type {
+  Assignee,
+  CrossBlockDependencyMode,
+  Distribution,
+  ScheduleMode,
+  WorkingCalendar,
+} from '../types/index.ts';
+import { findDependencyCycle, topologicalOrder } from './dependencies.ts';
+
+// Shared by the Vite app and the timelines-recalculate edge function, so it has
+// no dependencies and imports nothing but types and dependencies.ts. All dates
+// are `YYYY-MM-DD` strings handled as UTC midnights, so results do not depend on
+// the runtime's timezone.
+
+export interface ScheduleTask {
+  id: string;
+  block_id: string;
+  title: string;
+  assignee?: Assignee;
+  is_skeleton: boolean;
+  weight: number;
+  locked?: boolean;
+  due_date?: string | null;
+  start_date?: string | null;
+  duration_days?: number | null;
+  min_lead_days_before_event?: number | null;
+  depends_on_task_ids?: string[] | null;
+}
+
+export interface ScheduleBlock {
+  id: string;
+  monthsBeforeStart: number;
+  monthsBeforeEnd: number;
+}
+
+export interface ResolvedCalendar {
+  workingDays: number[];
+  blackoutDates: string[];
+}
+
+// Maximum summed task weight per assignee per week (Monday to Sunday).
+export type AssigneeCapacity = Partial<Record<Assignee, number>>;
+
+export type HolidaySets = Record<string, { label: string; dates: string[] }>;
+
+export interface ScheduledTask {
+  id: string;
+  due_date: string;
+  // Set when the task has a duration (or a start date to keep the gap to).
+  start_date?: string;
+  overdue_on_original_plan?: boolean;
+  // Weekly mode only: weeks before the event ("Week -3" is -3), and whether the
+  // task is non-essential and should be reviewed by a planner.
+  week_offset?: number;
+  needs_review?: boolean;
+}
+
+// A task left due on or before a task it depends on.
+export interface DependencyConflict {
+  taskId: string;
+  dependsOnTaskId: string;
+  dueDate: string;
+  dependencyDueDate: string;
+}
+
+export interface ScheduledBlock {
+  id: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface ScheduleResult {
+  blocks: ScheduledBlock[];
+  tasks: ScheduledTask[];
+  result: {
+    updated: number;
+    skippedLocked: number;
+    scaleFactor: number;
+    leadTimeMonths: number;
+    scheduleMode: ScheduleMode;
+    needsReview: number;
+    conflicts: DependencyConflict[];
+    notes: string[];
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+const DAYS_PER_MONTH = 30.437;
+const MAX_SCALE_FACTOR = 2;
+
+// Below this lead time the monthly blocks are too short to be useful, and tasks
+// are planned week by week instead.
+export const WEEKLY_MODE_THRESHOLD_MONTHS = 2;
+
+const CANONICAL_BLOCKS: Record<string, { start: number; end: number }> = {
+  '12m': { start: 12, end: 10 },
+  '8-10m': { start: 10, end: 8 },
+  '6-8m': { start: 8, end: 6 },
+  '4-6m': { start: 6, end: 4 },
+  '3-4m': { start: 4, end: 3 },
+  '1-2m': { start: 2, end: 1 },
+  '2w': { start: 0.5, end: 0 },
+};
+
+export function parseDate(iso: string): Date {
+  const [year, month, day] = iso.substring(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+// Whole months use calendar arithmetic (clamping to the end of shorter months);
+// any fractional remainder is converted to days.
+export function subtractMonths(date: Date, months: number): Date {
+  const whole = Math.floor(months);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() - whole;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const shifted = new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+  return addDays(shifted, -Math.round((months - whole) * DAYS_PER_MONTH));
+}
+
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+export function todayISODate(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Weeks are Monday to Sunday; "Week -1" is the week containing the day before
+// the event.
+export function weekOffsetBefore(eventDateISO: string, dateISO: string): number {
+  const lastWeek = startOfWeek(addDays(parseDate(eventDateISO), -1));
+  return Math.min(Math.round(daysBetween(lastWeek, startOfWeek(parseDate(dateISO))) / 7) - 1, -1);
+}
+
+export function calculateLeadTimeMonths(eventDateISO: string, todayISO: string = todayISODate()): number {
+  const days = Math.max(daysBetween(parseDate(todayISO), parseDate(eventDateISO)), 0);
+  return days / DAYS_PER_MONTH;
+}
+
+export function calculateScaleFactor(leadTimeMonths: number, canonicalMonths: number = 12): number {
+  return Math.min(Math.max(leadTimeMonths / canonicalMonths, 0), MAX_SCALE_FACTOR);
+}
+
+// Expands a timeline's stored calendar into concrete blackout dates. Holiday
+// data is passed in so this module stays free of JSON imports.
+export function resolveWorkingCalendar(
+  calendar: WorkingCalendar | null | undefined,
+  holidaySets: HolidaySets
+): ResolvedCalendar | undefined {
+  if (!calendar) return undefined;
+
+  const workingDays = calendar.workingDays?.length ? calendar.workingDays : DEFAULT_WORKING_DAYS;
+  const blackoutDates = [
+    ...(calendar.blackoutDates || []),
+    ...(calendar.holidaySets || []).flatMap(key => holidaySets[key]?.dates || []),
+  ];
+
+  return { workingDays, blackoutDates: Array.from(new Set(blackoutDates)).sort() };
+}
+
+// Fallback for blocks created before month offsets were copied from templates.
+export function getCanonicalOffsets(blockKey: string): { start: number; end: number } | null {
+  for (const [key, offsets] of Object.entries(CANONICAL_BLOCKS)) {
+    if (blockKey.toLowerCase().includes(key.toLowerCase())) {
+      return offsets;
+    }
+  }
+
+  const match = blockKey.match(/(\d+)(?:-(\d+))?([mw])/i);
+  if (match) {
+    const num1 = parseInt(match[1]);
+    const num2 = match[2] ? parseInt(match[2]) : num1;
+    const unit = match[3].toLowerCase();
+
+    if (unit === 'm') {
+      return { start: Math.max(num1, num2), end: Math.min(num1, num2) };
+    } else if (unit === 'w') {
+      return { start: Math.max(num1, num2) / 4, end: Math.min(num1, num2) / 4 };
+    }
+  }
+
+  return null;
+}
+
+function positionInSpan(distribution: Distribution, index: number, count: number, spanDays: number): number {
+  if (distribution === 'even') {
+    return Math.round((index / Math.max(count - 1, 1)) * spanDays);
+  }
+
+  // Front-load: the first half of the tasks share the first quarter of the span.
+  const firstHalf = Math.ceil(count / 2);
+  const quarter = Math.max(Math.round(0.25 * spanDays), 1);
+  if (index < firstHalf) {
+    return Math.round((index / Math.max(firstHalf - 1, 1)) * quarter);
+  }
+  const secondCount = count - firstHalf;
+  const range = Math.max(spanDays - quarter, 1);
+  return quarter + Math.round(((index - firstHalf) / Math.max(secondCount - 1, 1)) * range);
+}
+
+// Balanced: split the span into weeks and give each week roughly the same summed
+// weight. Skeleton tasks are staggered across the weeks first, then the rest go
+// heaviest-first into the lightest week.
+function balancedPlacement(tasks: ScheduleTask[], days: Date[]): Map<string, Date> {
+  const weeks: Date[][] = [];
+  days.forEach(day => {
+    const index = Math.floor(daysBetween(days[0], day) / 7);
+    (weeks[index] ||= []).push(day);
+  });
+  const buckets = weeks
+    .filter(Boolean)
+    .map(weekDays => ({ days: weekDays, load: 0, tasks: [] as ScheduleTask[] }));
+
+  const byWeight = (a: ScheduleTask, b: ScheduleTask) => (b.weight - a.weight) || a.title.localeCompare(b.title);
+  const skeletons = tasks.filter(task => task.is_skeleton).sort(byWeight);
+  const others = tasks.filter(task => !task.is_skeleton).sort(byWeight);
+
+  skeletons.forEach((task, index) => {
+    const bucket = buckets[Math.min(Math.floor(((index + 0.5) * buckets.length) / skeletons.length), buckets.length - 1)];
+    bucket.tasks.push(task);
+    bucket.load += task.weight;
+  });
+  others.forEach(task => {
+    const bucket = buckets.reduce((lightest, candidate) => (candidate.load < lightest.load ? candidate : lightest));
+    bucket.tasks.push(task);
+    bucket.load += task.weight;
+  });
+
+  const placement = new Map<string, Date>();
+  buckets.forEach(bucket => {
+    bucket.tasks.forEach((task, index) => {
+      placement.set(task.id, bucket.days[Math.floor(((index + 0.5) * bucket.days.length) / bucket.tasks.length)]);
+    });
+  });
+  return placement;
+}
+
+// Weekly mode: skeleton tasks and the rest are each spread over the weeks in
+// block order, and within a week skeleton tasks take the earliest days.
+function weeklyPlacement(tasks: ScheduleTask[], weeks: Date[][]): Map<string, Date> {
+  const buckets = weeks.map(days => ({ days, tasks: [] as ScheduleTask[] }));
+  const skeletons = tasks.filter(task => task.is_skeleton);
+  const others = tasks.filter(task => !task.is_skeleton);
+
+  [skeletons, others].forEach(group => {
+    group.forEach((task, index) => {
+      buckets[Math.floor((index * buckets.length) / group.length)].tasks.push(task);
+    });
+  });
+
+  const placement = new Map<string, Date>();
+  buckets.forEach(bucket => {
+    bucket.tasks.forEach((task, index) => {
+      placement.set(task.id, bucket.days[Math.floor((index * bucket.days.length) / bucket.tasks.length)]);
+    });
+  });
+  return placement;
+}
+
+// Moves unlocked tasks out of weeks where an assignee is over capacity, into the
+// nearest week of the same block window that has room. Returns a note for every
+// week that is still over the limit afterwards.
+function levelCapacity(args: {
+  tasks: ScheduleTask[];
+  scheduled: Map<string, ScheduledTask>;
+  windows: Map<string, { start: Date; end: Date }>;
+  capacity: AssigneeCapacity;
+  isMovable: (task: ScheduleTask) => boolean;
+  isWorkingDay: (date: Date) => boolean;
+  latestDue: (task: ScheduleTask) => Date | null;
+  today: Date;
+}): string[] {
+  const { tasks, scheduled, windows, capacity, isMovable, isWorkingDay, latestDue, today } = args;
+  const notes: string[] = [];
+  const weekOf = (iso: string) => toISODate(startOfWeek(parseDate(iso)));
+
+  const dependents = new Map<string, string[]>();
+  tasks.forEach(task => {
+    (task.depends_on_task_ids || []).forEach(depId => {
+      dependents.set(depId, [...(dependents.get(depId) || []), task.id]);
+    });
+  });
+
+  for (const [assignee, limit] of Object.entries(capacity)) {
+    if (!limit || limit <= 0) continue;
+
+    const assigneeTasks = tasks.filter(task => task.assignee === assignee && scheduled.has(task.id));
+    const load = new Map<string, number>();
+    assigneeTasks.forEach(task => {
+      const week = weekOf(scheduled.get(task.id)!.due_date);
+      load.set(week, (load.get(week) ?? 0) + task.weight);
+    });
+
+    const findSlot = (task: ScheduleTask, current: Date): Date | null => {
+      const win = windows.get(task.block_id);
+      if (!win) return null;
+
+      let lower = win.start > today ? win.start : today;
+      (task.depends_on_task_ids || []).forEach(depId => {
+        const dep = scheduled.get(depId);
+        if (dep && addDays(parseDate(dep.due_date), 1) > lower) lower = addDays(parseDate(dep.due_date), 1);
+      });
+      let upper = win.end;
+      const ceiling = latestDue(task);
+      if (ceiling && ceiling < upper) upper = ceiling;
+      (dependents.get(task.id) || []).forEach(childId => {
+        const child = scheduled.get(childId);
+        if (child && addDays(parseDate(child.due_date), -1) < upper) upper = addDays(parseDate(child.due_date), -1);
+      });
+      if (upper < lower) return null;
+
+      const currentWeek = startOfWeek(current);
+      const weekday = daysBetween(currentWeek, current);
+      const candidates: Date[] = [];
+      for (let week = startOfWeek(lower); week <= upper; week = addDays(week, 7)) {
+        if (week.getTime() !== currentWeek.getTime()) candidates.push(week);
+      }
+      candidates.sort((a, b) =>
+        Math.abs(daysBetween(currentWeek, a)) - Math.abs(daysBetween(currentWeek, b)) || a.getTime() - b.getTime()
+      );
+
+      for (const week of candidates) {
+        if ((load.get(toISODate(week)) ?? 0) + task.weight > limit) continue;
+        const days = [0, 1, 2, 3, 4, 5, 6]
+          .map(offset => addDays(week, offset))
+          .filter(day => day >= lower && day <= upper && isWorkingDay(day))
+          .sort((a, b) => Math.abs(daysBetween(week, a) - weekday) - Math.abs(daysBetween(week, b) - weekday));
+        if (days.length) return days[0];
+      }
+      return null;
+    };
+
+    for (const week of Array.from(load.keys()).sort()) {
+      if ((load.get(week) ?? 0) <= limit) continue;
+
+      const candidates = assigneeTasks
+        .filter(task => isMovable(task) && weekOf(scheduled.get(task.id)!.due_date) === week)
+        .sort((a, b) => (Number(a.is_skeleton) - Number(b.is_skeleton)) || (a.weight - b.weight));
+
+      for (const task of candidates) {
+        if ((load.get(week) ?? 0) <= limit) break;
+
+        const entry = scheduled.get(task.id)!;
+        const target = findSlot(task, parseDate(entry.due_date));
+        if (!target) continue;
+
+        scheduled.set(task.id, { ...entry, due_date: toISODate(target) });
+        load.set(week, (load.get(week) ?? 0) - task.weight);
+        load.set(toISODate(startOfWeek(target)), (load.get(toISODate(startOfWeek(target))) ?? 0) + task.weight);
+      }
+
+      if ((load.get(week) ?? 0) > limit) {
+        notes.push(`Capacity: ${assignee} has weight ${load.get(week)} in the week of ${week} (limit ${limit})`);
+      }
+    }
+  }
+
+  return notes;
+}
+
+export function recalcTimelineDates(opts: {
+  eventDateISO: string;
+  todayISO?: string;
+  blocks: ScheduleBlock[];
+  tasks: ScheduleTask[];
+  distribution?: Distribution;
+  respectLocks?: boolean;
+  graceDays?: number;
+  calendar?: ResolvedCalendar;
+  capacity?: AssigneeCapacity;
+  crossBlockDependencies?: CrossBlockDependencyMode;
+}): ScheduleResult {
+  const {
+    eventDateISO,
+    todayISO = todayISODate(),
+    blocks,
+    tasks,
+    distribution = 'frontload',
+    respectLocks = true,
+    graceDays = 2,
+    calendar,
+    capacity,
+    crossBlockDependencies = 'extend',
+  } = opts;
+
+  const eventDate = parseDate(eventDateISO);
+  const today = parseDate(todayISO);
+
+  const leadTimeMonths = calculateLeadTimeMonths(eventDateISO, todayISO);
+  const S = calculateScaleFactor(leadTimeMonths);
+
+  const lastDay = addDays(eventDate, -1);
+  const scheduleMode: ScheduleMode =
+    leadTimeMonths < WEEKLY_MODE_THRESHOLD_MONTHS && lastDay >= today ? 'weekly' : 'monthly';
+
+  const notes: string[] = [];
+  if (leadTimeMonths < WEEKLY_MODE_THRESHOLD_MONTHS && scheduleMode === 'monthly') {
+    notes.push('Compressed schedule: event date has passed');
+  }
+
+  const titles = new Map(tasks.map(task => [task.id, task.title]));
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) {
+    notes.push(`Dependency cycle, dates may not respect it: ${cycle.map(id => titles.get(id)).join(' → ')}`);
+  }
+
+  const windows = blocks.map(block => {
+    const start = startOfWeek(subtractMonths(eventDate, block.monthsBeforeStart * S));
+    const end = startOfWeek(subtractMonths(eventDate, block.monthsBeforeEnd * S));
+    return { blockId: block.id, start, end: end >= start ? end : addDays(start, 7) };
+  });
+
+  const byBlock = new Map<string, ScheduleTask[]>();
+  tasks.forEach(task => {
+    const list = byBlock.get(task.block_id) || [];
+    list.push(task);
+    byBlock.set(task.block_id, list);
+  });
+
+  const workingDays = new Set(calendar?.workingDays ?? [0, 1, 2, 3, 4, 5, 6]);
+  const blackoutDates = new Set(calendar?.blackoutDates ?? []);
+  const isWorkingDay = (date: Date) => workingDays.has(date.getUTCDay()) && !blackoutDates.has(toISODate(date));
+
+  const shiftToWorkingDay = (date: Date, step: 1 | -1): Date | null => {
+    let current = date;
+    for (let i = 0; i < 366; i++) {
+      if (isWorkingDay(current)) return current;
+      current = addDays(current, step);
+    }
+    return null;
+  };
+
+  const isFixed = (task: ScheduleTask) => respectLocks && !!task.locked;
+
+  // Supplier lead time: the task must be due this many days before the event.
+  const latestDue = (task: ScheduleTask): Date | null =>
+    task.min_lead_days_before_event != null ? addDays(eventDate, -task.min_lead_days_before_event) : null;
+  const scheduled = new Map<string, ScheduledTask>();
+  const originalDates = new Map(tasks.map(task => [task.id, task.due_date ?? null]));
+  let skippedLocked = 0;
+
+  const currentDueDate = (taskId: string): string | null =>
+    scheduled.get(taskId)?.due_date ?? originalDates.get(taskId) ?? null;
+
+  if (scheduleMode === 'weekly') {
+    const weeks: Date[][] = [];
+    for (let week = startOfWeek(today); week <= lastDay; week = addDays(week, 7)) {
+      const days = [0, 1, 2, 3, 4, 5, 6]
+        .map(offset => addDays(week, offset))
+        .filter(day => day >= today && day <= lastDay);
+      const weekWorkingDays = days.filter(isWorkingDay);
+      weeks.push(weekWorkingDays.length ? weekWorkingDays : days);
+    }
+
+    const blockOrder = new Map(blocks.map((block, index) => [block.id, index]));
+    const movableTasks = tasks
+      .filter(task => blockOrder.has(task.block_id) && !isFixed(task))
+      .sort((a, b) => blockOrder.get(a.block_id)! - blockOrder.get(b.block_id)!);
+
+    tasks.filter(task => blockOrder.has(task.block_id) && isFixed(task)).forEach(task => {
+      skippedLocked++;
+      if (task.due_date) scheduled.set(task.id, { id: task.id, due_date: task.due_date.substring(0, 10) });
+    });
+
+    const placement = weeklyPlacement(movableTasks, weeks);
+    movableTasks.forEach(task => {
+      let due = placement.get(task.id)!;
+
+      const dependencyDates = (task.depends_on_task_ids || [])
+        .map(currentDueDate)
+        .filter((date): date is string => !!date)
+        .map(parseDate);
+      if (dependencyDates.length) {
+        const latest = dependencyDates.reduce((acc, date) => (date > acc ? date : acc));
+        if (addDays(latest, 1) > due) due = addDays(latest, 1);
+      }
+
+      const ceiling = latestDue(task);
+      if (ceiling && due > ceiling) due = ceiling > today ? ceiling : today;
+
+      if (!isWorkingDay(due)) {
+        const later = shiftToWorkingDay(due, 1);
+        const earlier = shiftToWorkingDay(due, -1);
+        if (later && later <= lastDay && !(ceiling && later > ceiling)) due = later;
+        else if (earlier && earlier >= today && !dependencyDates.some(date => date >= earlier)) due = earlier;
+        else if (later) due = later;
+      }
+
+      scheduled.set(task.id, {
+        id: task.id,
+        due_date: toISODate(due),
+        ...(!task.is_skeleton && { needs_review: true }),
+      });
+    });
+  } else windows.forEach(win => {
+    const blockTasks = byBlock.get(win.blockId) || [];
+    const fixedTasks = blockTasks.filter(isFixed);
+    const movableTasks = blockTasks
+      .filter(task => !isFixed(task))
+      .sort((a, b) =>
+        (Number(b.is_skeleton) - Number(a.is_skeleton)) ||
+        (b.weight - a.weight) ||
+        a.title.localeCompare(b.title)
+      );
+
+    skippedLocked += fixedTasks.length;
+    fixedTasks.forEach(task => {
+      if (task.due_date) scheduled.set(task.id, { id: task.id, due_date: task.due_date.substring(0, 10) });
+    });
+
+    // Locked tasks are anchors: they split the window into spans and unlocked
+    // tasks are dealt round-robin across the spans around them.
+    const anchors = fixedTasks
+      .filter(task => task.due_date)
+      .map(task => parseDate(task.due_date!))
+      .filter(date => date >= win.start && date <= win.end)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    const spans: Array<{ start: Date; end: Date; tasks: ScheduleTask[] }> = [];
+    let cursor = win.start;
+    anchors.forEach(anchor => {
+      const spanEnd = addDays(anchor, -1);
+      if (spanEnd >= cursor) spans.push({ start: cursor, end: spanEnd, tasks: [] });
+      if (addDays(anchor, 1) > cursor) cursor = addDays(anchor, 1);
+    });
+    if (win.end >= cursor) spans.push({ start: cursor, end: win.end, tasks: [] });
+    if (spans.length === 0) spans.push({ start: win.start, end: win.end, tasks: [] });
+
+    movableTasks.forEach((task, index) => spans[index % spans.length].tasks.push(task));
+
+    spans.forEach(span => {
+      // Positions are computed over the span's working days only, so the
+      // distribution keeps its shape when weekends and holidays are removed.
+      const spanDays: Date[] = [];
+      for (let day = span.start; day <= span.end; day = addDays(day, 1)) spanDays.push(day);
+      const spanWorkingDays = spanDays.filter(isWorkingDay);
+      const candidateDays = spanWorkingDays.length ? spanWorkingDays : spanDays;
+
+      const balanced = distribution === 'balanced' ? balancedPlacement(span.tasks, candidateDays) : null;
+
+      span.tasks.forEach((task, index) => {
+        let due = balanced?.get(task.id) ?? candidateDays[Math.min(
+          positionInSpan(distribution, index, span.tasks.length, Math.max(candidateDays.length - 1, 1)),
+          candidateDays.length - 1
+        )];
+
+        const dependencyDates = (task.depends_on_task_ids || [])
+          .map(currentDueDate)
+          .filter((date): date is string => !!date)
+          .map(parseDate);
+        let dependencyFloor: Date | null = null;
+        if (dependencyDates.length) {
+          const latest = dependencyDates.reduce((acc, date) => (date > acc ? date : acc));
+          dependencyFloor = addDays(latest, 1);
+          if (dependencyFloor > due) due = dependencyFloor;
+        }
+
+        if (due < span.start) due = span.start;
+        if (due > span.end) due = span.end;
+
+        const ceiling = latestDue(task);
+        if (ceiling && due > ceiling) due = ceiling;
+
+        let overdueOnOriginalPlan = false;
+        if (due < today) {
+          due = addDays(today, graceDays);
+          overdueOnOriginalPlan = true;
+        }
+
+        if (!isWorkingDay(due)) {
+          // Prefer the next working day while it stays inside the span,
+          // otherwise step back as long as that respects dependencies and today.
+          const floor = overdueOnOriginalPlan ? due : dependencyFloor ?? span.start;
+          const later = shiftToWorkingDay(due, 1);
+          const earlier = shiftToWorkingDay(due, -1);
+          if (later && later <= span.end && !(ceiling && later > ceiling)) due = later;
+          else if (earlier && earlier >= floor && earlier >= today) due = earlier;
+          else if (later) due = later;
+        }
+
+        const dueISO = toISODate(due);
+        scheduled.set(task.id, {
+          id: task.id,
+          due_date: dueISO,
+          ...(overdueOnOriginalPlan && { overdue_on_original_plan: true }),
+        });
+      });
+    });
+  });
+
+  // Dependencies are applied block by block above, so a task can still land on or
+  // before a dependency that sits in a later block, or be clamped back into its
+  // span. Walk the graph in dependency order and either move the task (extending
+  // its block window) or report the conflict.
+  const conflicts: DependencyConflict[] = [];
+  const windowByBlock = new Map(windows.map(win => [win.blockId, win]));
+  topologicalOrder(tasks).forEach(task => {
+    const entry = scheduled.get(task.id);
+    if (!entry) return;
+
+    const dependency = (task.depends_on_task_ids || [])
+      .map(depId => scheduled.get(depId))
+      .filter((dep): dep is ScheduledTask => !!dep)
+      .reduce<ScheduledTask | null>((latest, dep) => (!latest || dep.due_date > latest.due_date ? dep : latest), null);
+    if (!dependency || entry.due_date > dependency.due_date) return;
+
+    const dayAfter = addDays(parseDate(dependency.due_date), 1);
+    const floor = shiftToWorkingDay(dayAfter, 1) ?? dayAfter;
+    const ceiling = latestDue(task);
+    if (crossBlockDependencies === 'extend' && !isFixed(task) && floor <= lastDay && !(ceiling && floor > ceiling)) {
+      entry.due_date = toISODate(floor);
+      const win = windowByBlock.get(task.block_id);
+      if (scheduleMode === 'monthly' && win && floor > win.end) {
+        win.end = floor;
+        notes.push(
+          `Extended a block window to ${entry.due_date} so "${task.title}" stays after "${titles.get(dependency.id)}"`
+        );
+      }
+      return;
+    }
+
+    conflicts.push({
+      taskId: task.id,
+      dependsOnTaskId: dependency.id,
+      dueDate: entry.due_date,
+      dependencyDueDate: dependency.due_date,
+    });
+    notes.push(
+      `Dependency conflict: "${task.title}" (due ${entry.due_date}) is not after ` +
+      `"${titles.get(dependency.id)}" (due ${dependency.due_date})`
+    );
+  });
+
+  if (capacity) {
+    notes.push(...levelCapacity({
+      tasks,
+      scheduled,
+      windows: new Map(windows.map(win => [
+        win.blockId,
+        scheduleMode === 'weekly' ? { start: today, end: lastDay } : win,
+      ])),
+      capacity,
+      isMovable: task => !isFixed(task) && !scheduled.get(task.id)?.overdue_on_original_plan,
+      isWorkingDay,
+      latestDue,
+      today,
+    }));
+  }
+
+  tasks.forEach(task => {
+    const entry = scheduled.get(task.id);
+    if (!entry || isFixed(task)) return;
+
+    const ceiling = latestDue(task);
+    if (ceiling && parseDate(entry.due_date) > ceiling) {
+      notes.push(
+        `Lead time: "${task.title}" should be due by ${toISODate(ceiling)} ` +
+        `(${task.min_lead_days_before_event} days before the event) but is due ${entry.due_date}`
+      );
+    }
+
+    const duration = task.duration_days ??
+      (task.start_date && task.due_date ? Math.max(daysBetween(parseDate(task.start_date), parseDate(task.due_date)), 0) : null);
+    if (duration == null) return;
+
+    const start = addDays(parseDate(entry.due_date), -duration);
+    entry.start_date = toISODate(start);
+    if (start < today) {
+      notes.push(`Duration: "${task.title}" takes ${duration} days, so it should have started on ${entry.start_date}`);
+    }
+  });
+
+  const updated = tasks.filter(task =>
+    !isFixed(task) && scheduled.get(task.id)?.due_date !== originalDates.get(task.id)?.substring(0, 10)
+  ).length;
+
+  let needsReview = 0;
+  let scheduledBlocks = windows.map(win => ({
+    id: win.blockId,
+    start_date: toISODate(win.start),
+    end_date: toISODate(win.end),
+  }));
+
+  if (scheduleMode === 'weekly') {
+    scheduled.forEach(entry => {
+      if (parseDate(entry.due_date) >= today && parseDate(entry.due_date) <= lastDay) {
+        entry.week_offset = weekOffsetBefore(eventDateISO, entry.due_date);
+      }
+      if (entry.needs_review) needsReview++;
+    });
+
+    // Block windows shrink to the weeks their tasks landed in.
+    scheduledBlocks = scheduledBlocks.map(block => {
+      const dates = (byBlock.get(block.id) || [])
+        .map(task => scheduled.get(task.id)?.due_date)
+        .filter((date): date is string => !!date)
+        .sort();
+      if (!dates.length) return { ...block, start_date: toISODate(startOfWeek(today)), end_date: toISODate(startOfWeek(lastDay)) };
+      return {
+        ...block,
+        start_date: toISODate(startOfWeek(parseDate(dates[0]))),
+        end_date: toISODate(startOfWeek(parseDate(dates[dates.length - 1]))),
+      };
+    });
+
+    notes.push(
+      `Weekly mode: ${weekOffsetBefore(eventDateISO, todayISO) * -1} weeks until the event, ` +
+      `${needsReview} non-essential tasks flagged for review`
+    );
+  }
+
+  return {
+    blocks: scheduledBlocks,
+    tasks: Array.from(scheduled.values()),
+    result: {
+      updated,
+      skippedLocked,
+      scaleFactor: Number(S.toFixed(2)),
+      leadTimeMonths: Number(leadTimeMonths.toFixed(1)),
+      scheduleMode,
+      needsReview,
+      conflicts,
+      notes,
+    },
+  };
+}
@@ -0,0 +1,18 @@
+// Links handed to clients point at the React app, which is hosted separately
+// from Supabase, so its origin has to be configured with the PUBLIC_APP_URL
+// secret (e.g. https://timelines.example.com).
+export function publicAppUrl(): string {
+  const url = Deno.env.get('PUBLIC_APP_URL')?.trim().replace(/\/+$/, '');
+  if (!url) {
+    throw new Error('PUBLIC_APP_URL is not set');
+  }
+  return url;
+}
+
+export function clientPortalUrl(token: string): string {
+  return `${publicAppUrl()}/client?token=${encodeURIComponent(token)}`;
+}
+
+export function shortShareUrl(shortCode: string): string {
+  return `${publicAppUrl()}/s/${encodeURIComponent(shortCode)}`;
+}
@@ -0,0 +1,103 @@
+import { decode as decodeWebp } from 'npm:@jsquash/webp@1.5.0';
+import { decode as decodeJpeg, encode as encodeJpeg } from 'npm:@jsquash/jpeg@1.6.0';
+import themes from '../../../src/assets/themes.json' with { type: 'json' };
+import { BRAND } from '../../../src/config/brand.ts';
+import { publicAppUrl } from './appUrl.ts';
+
+export const BRAND_NAME = BRAND.name;
+
+export interface JpegImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const themeBackgrounds = themes as Record<string, string>;
+const backgroundCache = new Map<string, JpegImage | null>();
+let logoCache: JpegImage | undefined;
+
+function decodeDataUrl(dataUrl: string): { mime: string; bytes: Uint8Array } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) return null;
+
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { mime: match[1], bytes };
+}
+
+// Document formats (PDF, DOCX) cannot embed WebP, so theme backgrounds are
+// re-encoded as JPEG once per theme and cached for the life of the worker.
+// `fade` blends the image towards white (0 = untouched, 1 = blank) for
+// formats such as DOCX that cannot set image opacity themselves.
+export async function loadThemeBackgroundJpeg(themeKey: string, options: { fade?: number } = {}): Promise<JpegImage | null> {
+  const key = themeBackgrounds[themeKey] ? themeKey : 'wedding';
+  const fade = Math.min(Math.max(options.fade ?? 0, 0), 1);
+  const cacheKey = `${key}:${fade}`;
+  if (backgroundCache.has(cacheKey)) return backgroundCache.get(cacheKey)!;
+
+  let image: JpegImage | null = null;
+  const decoded = decodeDataUrl(themeBackgrounds[key]);
+
+  if (decoded?.mime === 'image/jpeg' || decoded?.mime === 'image/webp') {
+    const imageData = decoded.mime === 'image/webp'
+      ? await decodeWebp(decoded.bytes.buffer as ArrayBuffer)
+      : await decodeJpeg(decoded.bytes.buffer as ArrayBuffer);
+
+    if (fade > 0) {
+      const pixels = imageData.data;
+      for (let i = 0; i < pixels.length; i += 4) {
+        pixels[i] += (255 - pixels[i]) * fade;
+        pixels[i + 1] += (255 - pixels[i + 1]) * fade;
+        pixels[i + 2] += (255 - pixels[i + 2]) * fade;
+      }
+    }
+
+    image = {
+      bytes: new Uint8Array(await encodeJpeg(imageData, { quality: 70 })),
+      width: imageData.width,
+      height: imageData.height,
+    };
+  } else {
+    console.warn(`Unsupported theme background format for ${key}`);
+  }
+
+  backgroundCache.set(cacheKey, image);
+  return image;
+}
+
+function jpegDimensions(bytes: Uint8Array): { width: number; height: number } {
+  let offset = 2;
+  while (offset < bytes.length) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker >= 0xc0 && marker <= 0xc3) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('Invalid JPEG: no frame header');
+}
+
+// Deploys only bundle the module graph, not files under public/, so the logo is
+// fetched from the app that serves it.
+export async function loadBrandLogoJpeg(): Promise<JpegImage | null> {
+  if (logoCache) return logoCache;
+
+  try {
+    const res = await fetch(`${publicAppUrl()}${BRAND.logoLight}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    logoCache = { bytes, ...jpegDimensions(bytes) };
+  } catch (error) {
+    // Not cached, so the next export tries again.
+    console.error('Failed to load brand logo:', error);
+    return null;
+  }
+  return logoCache;
+}
@@ -0,0 +1,143 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { EDITOR_ROLES, requireStaff } from '../_shared/staff.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// The shape alone lets values like 2026-13-45 through to Postgres; rebuilding the
+// date catches months and days that do not exist.
+function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const check = await requireStaff(req, req.method === 'GET' ? undefined : EDITOR_ROLES);
+    if (!check.staff) {
+      return json({ error: check.error }, check.status);
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    const eventId = pathParts[1];
+
+    if (req.method === 'GET' && pathParts.length === 3 && pathParts[2] === 'source-head') {
+      const { data: event, error } = await supabase
+        .from('events')
+        .select('date, source_version')
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!event) return json({ error: 'Event not found' }, 404);
+
+      return json({ date: event.date, sourceVersion: event.source_version });
+    }
+
+    if (req.method === 'PUT' && pathParts.length === 3 && pathParts[2] === 'date') {
+      const { date, sourceVersion, clientMutationId, force = false } = await req.json();
+
+      if (!isCalendarDate(date)) {
+        return json({ error: 'date must be a valid ISO date (YYYY-MM-DD)' }, 400);
+      }
+      if (!force && typeof sourceVersion !== 'number') {
+        return json({ error: 'sourceVersion is required unless force is set' }, 400);
+      }
+
+      if (clientMutationId) {
+        const { data: previous, error: previousError } = await supabase
+          .from('event_date_mutations')
+          .select('event_id, source_version')
+          .eq('client_mutation_id', clientMutationId)
+          .maybeSingle();
+
+        if (previousError) throw previousError;
+
+        if (previous) {
+          if (previous.event_id !== eventId) {
+            return json({ error: 'clientMutationId was already used for a different event' }, 422);
+          }
+          return json({ ok: true, sourceVersion: previous.source_version, replayed: true });
+        }
+      }
+
+      let query = supabase
+        .from('events')
+        .update({ date: date.substring(0, 10) })
+        .eq('id', eventId);
+
+      if (!force) {
+        query = query.eq('source_version', sourceVersion);
+      }
+
+      const { data: updated, error: updateError } = await query
+        .select('date, source_version')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+
+      if (!updated) {
+        const { data: current, error: currentError } = await supabase
+          .from('events')
+          .select('date, source_version')
+          .eq('id', eventId)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+        if (!current) return json({ error: 'Event not found' }, 404);
+
+        return json({
+          error: `conflict: event date was changed elsewhere (sourceVersion ${current.source_version}, expected ${sourceVersion})`,
+          date: current.date,
+          sourceVersion: current.source_version,
+        }, 409);
+      }
+
+      if (clientMutationId) {
+        const { error: recordError } = await supabase
+          .from('event_date_mutations')
+          .insert({
+            client_mutation_id: clientMutationId,
+            event_id: eventId,
+            date: date.substring(0, 10),
+            source_version: updated.source_version,
+          });
+
+        // A concurrent retry of the same mutation already recorded it.
+        if (recordError && recordError.code !== '23505') throw recordError;
+      }
+
+      return json({ ok: true, sourceVersion: updated.source_version });
+    }
+
+    return json({ error: 'Not found' }, 404);
+  } catch (error) {
+    console.error('Error:', error);
+    return json({ error: error.message }, 500);
+  }
+});
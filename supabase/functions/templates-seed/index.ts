@@ -1,9 +1,10 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { requireStaffOrWebhook } from '../_shared/staff.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Webhook-Secret',
 };
 
 interface TemplateTask {
@@ -13,15 +14,41 @@ interface TemplateTask {
   weight?: number;
   order: number;
   description?: string;
+  durationDays?: number;
+  minLeadDaysBeforeEvent?: number;
 }
 
 interface TemplateBlock {
   key: string;
   title: string;
   order: number;
+  monthsBeforeStart?: number;
+  monthsBeforeEnd?: number;
   tasks: TemplateTask[];
 }
 
+function invalidOffsets(block: TemplateBlock): string | null {
+  const { monthsBeforeStart: start, monthsBeforeEnd: end } = block;
+  if (start === undefined && end === undefined) return null;
+  if (typeof start !== 'number' || typeof end !== 'number' || start < 0 || end < 0) {
+    return `Block "${block.key}" needs numeric monthsBeforeStart and monthsBeforeEnd`;
+  }
+  if (start < end) {
+    return `Block "${block.key}" has monthsBeforeStart before monthsBeforeEnd`;
+  }
+  return null;
+}
+
+function invalidTaskDays(task: TemplateTask): string | null {
+  for (const field of ['durationDays', 'minLeadDaysBeforeEvent'] as const) {
+    const value = task[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return `Task "${task.title}" needs a non-negative whole number of days for ${field}`;
+    }
+  }
+  return null;
+}
+
 interface Template {
   templateKey: string;
   title: string;
@@ -41,11 +68,11 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
+    const check = await requireStaffOrWebhook(req, ['owner']);
+    if (check.actor === undefined) {
       return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: check.error }),
+        { status: check.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
@@ -58,6 +85,20 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const offsetErrors = templates
+      .flatMap(template => template.blocks.flatMap(block => [
+        invalidOffsets(block),
+        ...block.tasks.map(task => invalidTaskDays(task)),
+      ]))
+      .filter(Boolean);
+
+    if (offsetErrors.length) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid templates data', details: offsetErrors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     let templatesCount = 0;
     let blocksCount = 0;
     let tasksCount = 0;
@@ -129,6 +170,8 @@ Deno.serve(async (req: Request) => {
             key: block.key,
             title: block.title,
             order: block.order,
+            months_before_start: block.monthsBeforeStart ?? null,
+            months_before_end: block.monthsBeforeEnd ?? null,
           })
           .select()
           .single();
@@ -150,6 +193,8 @@ Deno.serve(async (req: Request) => {
               assignee: task.assignee,
               weight: task.weight ?? (task.isSkeleton ? 3 : 1),
               is_skeleton: task.isSkeleton ?? false,
+              duration_days: task.durationDays ?? null,
+              min_lead_days_before_event: task.minLeadDaysBeforeEvent ?? null,
               order: task.order,
             });
 
@@ -0,0 +1,219 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+type Assignee = 'client' | 'js' | 'joint';
+
+// The feed is keyed by a share token, so it only ever carries the tasks the
+// client portal lets the link holder act on, never JustSeventy's own.
+const ASSIGNEES: Assignee[] = ['client', 'joint'];
+
+const ASSIGNEE_LABELS: Record<Assignee, string> = {
+  client: 'Client',
+  js: 'JustSeventy',
+  joint: 'Joint',
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the
+// next line after a single leading space.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDateValue(date: string): string {
+  return date.substring(0, 10).replace(/-/g, '');
+}
+
+function nextDateValue(date: string): string {
+  const next = new Date(`${date.substring(0, 10)}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().substring(0, 10).replace(/-/g, '');
+}
+
+function formatTimestamp(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function allDayEvent(props: {
+  uid: string;
+  sequence: number;
+  date: string;
+  stamp: string;
+  summary: string;
+  description?: string;
+  categories?: string;
+}): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${props.uid}`,
+    `DTSTAMP:${formatTimestamp(props.stamp)}`,
+    `SEQUENCE:${props.sequence}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(props.date)}`,
+    `DTEND;VALUE=DATE:${nextDateValue(props.date)}`,
+    `SUMMARY:${escapeText(props.summary)}`,
+    ...(props.description ? [`DESCRIPTION:${escapeText(props.description)}`] : []),
+    ...(props.categories ? [`CATEGORIES:${escapeText(props.categories)}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    const token = pathParts[pathParts.length - 1]?.replace(/\.ics$/, '');
+
+    if (req.method !== 'GET' || pathParts.length < 2 || !token) {
+      return new Response(
+        JSON.stringify({ error: 'Not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const requested = (url.searchParams.get('assignee') || '')
+      .split(',')
+      .map(value => value.trim())
+      .filter((value): value is Assignee => ASSIGNEES.includes(value as Assignee));
+    const assignees = requested.length ? requested : ASSIGNEES;
+
+    const { data: shareLink, error: shareLinkError } = await supabase
+      .from('share_links')
+      .select('timeline_id, expires_at, revoked_at')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (shareLinkError) throw shareLinkError;
+
+    if (!shareLink || shareLink.revoked_at || new Date(shareLink.expires_at) < new Date()) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired link' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: timeline, error: timelineError } = await supabase
+      .from('timelines')
+      .select('id, event:events(*), blocks(id, title)')
+      .eq('id', shareLink.timeline_id)
+      .single();
+
+    if (timelineError) throw timelineError;
+
+    const { data: tasks, error: tasksError } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('timeline_id', shareLink.timeline_id)
+      .in('assignee', assignees)
+      .not('due_date', 'is', null)
+      .order('due_date');
+
+    if (tasksError) throw tasksError;
+
+    const blockTitles = new Map<string, string>(
+      (timeline.blocks || []).map((block: { id: string; title: string }) => [block.id, block.title])
+    );
+    const event = timeline.event;
+    const now = new Date().toISOString();
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//JustSeventy//Event Timeline//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(`${event?.code ?? ''} — ${event?.title ?? 'Timeline'}`)}`,
+      'X-PUBLISHED-TTL:PT1H',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ];
+
+    if (event?.date) {
+      lines.push(...allDayEvent({
+        uid: `event-${event.id}@justseventy`,
+        sequence: event.date_sequence ?? 0,
+        date: event.date,
+        stamp: event.updated_at ?? now,
+        summary: event.title,
+        description: [event.code, event.venue].filter(Boolean).join(' • '),
+      }));
+    }
+
+    for (const task of tasks || []) {
+      const assigneeLabel = ASSIGNEE_LABELS[task.assignee as Assignee] ?? task.assignee;
+      lines.push(...allDayEvent({
+        uid: `task-${task.id}@justseventy`,
+        sequence: task.due_date_sequence ?? 0,
+        date: task.due_date,
+        stamp: task.updated_at ?? now,
+        summary: `${task.done ? '✓ ' : ''}${task.title}`,
+        description: [
+          blockTitles.get(task.block_id),
+          `Assignee: ${assigneeLabel}`,
+          task.is_skeleton ? 'Key task' : null,
+          task.description,
+        ].filter(Boolean).join('\n'),
+        categories: assigneeLabel,
+      }));
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return new Response(
+      lines.map(foldLine).join('\r\n') + '\r\n',
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': `inline; filename="${event?.code || 'timeline'}.ics"`,
+          'Cache-Control': 'no-cache',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
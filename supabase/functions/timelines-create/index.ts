@@ -1,9 +1,11 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { EDITOR_ROLES, requireStaffOrWebhook } from '../_shared/staff.ts';
+import { clientPortalUrl, publicAppUrl, shortShareUrl } from '../_shared/appUrl.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Webhook-Secret',
 };
 
 interface EventData {
@@ -32,6 +34,17 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    const check = await requireStaffOrWebhook(req, EDITOR_ROLES);
+    if (check.actor === undefined) {
+      return new Response(
+        JSON.stringify({ error: check.error }),
+        { status: check.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Fail before creating a timeline whose share link nobody could be sent.
+    publicAppUrl();
+
     const body = await req.json();
     const { event, eventCode, templateKey } = body;
 
@@ -150,6 +163,8 @@ Deno.serve(async (req: Request) => {
           key: templateBlock.key,
           title: templateBlock.title,
           order: templateBlock.order,
+          months_before_start: templateBlock.months_before_start,
+          months_before_end: templateBlock.months_before_end,
         })
         .select()
         .single();
@@ -165,6 +180,8 @@ Deno.serve(async (req: Request) => {
           assignee: templateTask.assignee,
           weight: templateTask.weight,
           is_skeleton: templateTask.is_skeleton,
+          duration_days: templateTask.duration_days,
+          min_lead_days_before_event: templateTask.min_lead_days_before_event,
           done: false,
           order: templateTask.order,
         });
@@ -198,29 +215,31 @@ Deno.serve(async (req: Request) => {
     if (eventData?.date) {
       try {
         const recalcUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/timelines-recalculate/${timeline.id}`;
-        await fetch(recalcUrl, {
+        const recalcResponse = await fetch(recalcUrl, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
+            'Authorization': req.headers.get('Authorization') ?? '',
+            'X-Webhook-Secret': req.headers.get('X-Webhook-Secret') ?? '',
           },
           body: JSON.stringify({
             respectLocks: false,
             distribution: 'frontload',
           }),
         });
+        if (!recalcResponse.ok) {
+          console.error('Auto-recalculation failed:', await recalcResponse.text());
+        }
       } catch (recalcError) {
         console.error('Auto-recalculation failed:', recalcError);
       }
     }
 
-    const baseUrl = Deno.env.get('SUPABASE_URL')?.replace(/\/$/g, '') || '';
-    const shareUrl = `${baseUrl.replace('https://', 'https://').replace('.supabase.co', '')}/timeline?token=${token}`;
-
     return new Response(
       JSON.stringify({
         timelineId: timeline.id,
-        shareUrl,
+        shareUrl: shortShareUrl(shareLink.short_code),
+        clientUrl: clientPortalUrl(token),
         token,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
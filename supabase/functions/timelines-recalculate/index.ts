@@ -1,254 +1,122 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
-import {
-  addMonths, subMonths, addDays, subDays, differenceInCalendarDays,
-  startOfWeek, isBefore, isAfter, max as maxDate, min as minDate, parseISO
-} from 'npm:date-fns@4.1.0';
+import { getCanonicalOffsets, recalcTimelineDates, resolveWorkingCalendar } from '../../../src/utils/scheduling.ts';
+import holidays from '../../../src/assets/holidays.json' with { type: 'json' };
+import type { CrossBlockDependencyMode, Distribution } from '../../../src/types/index.ts';
+import { EDITOR_ROLES, isWebhookCaller, requireStaffOrWebhook } from '../_shared/staff.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Webhook-Secret',
 };
 
-type Distribution = 'frontload' | 'balanced' | 'even';
-
-interface Task {
+interface Snapshot {
   id: string;
-  block_id: string;
-  title: string;
-  is_skeleton: boolean;
-  weight: number;
-  locked?: boolean;
-  due_date?: string;
-  depends_on_task_ids?: string[];
+  blocks: Array<{ id: string; start_date: string | null; end_date: string | null }>;
+  tasks: Array<{
+    id: string;
+    due_date: string | null;
+    start_date?: string | null;
+    overdue_on_original_plan: boolean;
+    week_offset?: number | null;
+    needs_review?: boolean;
+  }>;
+  last_recalculated_at: string | null;
+  scale_factor: number | null;
+  schedule_mode: string | null;
 }
 
-interface Block {
-  id: string;
-  title: string;
-  key: string;
-  order: number;
-  tasks?: Task[];
-}
+async function restoreSnapshot(
+  supabase: ReturnType<typeof createClient>,
+  timelineId: string,
+  body: { snapshotId?: string },
+  actor: string
+): Promise<Response> {
+  let query = supabase
+    .from('recalculation_snapshots')
+    .select('*')
+    .eq('timeline_id', timelineId)
+    .is('restored_at', null);
 
-interface TemplateBlock {
-  months_before_start: number;
-  months_before_end: number;
-}
+  query = body.snapshotId
+    ? query.eq('id', body.snapshotId)
+    : query.order('created_at', { ascending: false }).limit(1);
 
-interface RecalcResult {
-  updated: number;
-  skippedLocked: number;
-  scaleFactor: number;
-  notes: string[];
-}
+  const { data: snapshot, error: snapshotError } = await query.maybeSingle<Snapshot>();
 
-const CANONICAL_BLOCKS: Record<string, { start: number; end: number }> = {
-  '12m': { start: 12, end: 10 },
-  '8-10m': { start: 10, end: 8 },
-  '6-8m': { start: 8, end: 6 },
-  '4-6m': { start: 6, end: 4 },
-  '3-4m': { start: 4, end: 3 },
-  '1-2m': { start: 2, end: 1 },
-  '2w': { start: 0.5, end: 0 },
-};
+  if (snapshotError) throw snapshotError;
 
-function getCanonicalOffsets(blockKey: string): { start: number; end: number } | null {
-  for (const [key, offsets] of Object.entries(CANONICAL_BLOCKS)) {
-    if (blockKey.includes(key) || blockKey.toLowerCase().includes(key.toLowerCase())) {
-      return offsets;
-    }
+  if (!snapshot) {
+    return new Response(
+      JSON.stringify({ error: 'No recalculation to revert' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
   }
 
-  const match = blockKey.match(/(\d+)(?:-(\d+))?([mw])/i);
-  if (match) {
-    const num1 = parseInt(match[1]);
-    const num2 = match[2] ? parseInt(match[2]) : num1;
-    const unit = match[3].toLowerCase();
-
-    if (unit === 'm') {
-      return { start: Math.max(num1, num2), end: Math.min(num1, num2) };
-    } else if (unit === 'w') {
-      return { start: Math.max(num1, num2) / 4, end: Math.min(num1, num2) / 4 };
-    }
+  for (const block of snapshot.blocks) {
+    await supabase
+      .from('blocks')
+      .update({ start_date: block.start_date, end_date: block.end_date })
+      .eq('id', block.id)
+      .eq('timeline_id', timelineId);
   }
 
-  return null;
-}
-
-function recalcTimelineDates(opts: {
-  eventDateISO: string;
-  todayISO?: string;
-  blocks: Array<Block & { monthsBeforeStart: number; monthsBeforeEnd: number }>;
-  tasks: Task[];
-  distribution?: Distribution;
-  respectLocks?: boolean;
-  graceDays?: number;
-}): { tasks: Array<{ id: string; due_date: string; overdue_on_original_plan?: boolean }>; blocks: Array<{ id: string; start_date: string; end_date: string }>; result: RecalcResult } {
-  const {
-    eventDateISO,
-    todayISO = new Date().toISOString(),
-    blocks,
-    tasks: inputTasks,
-    distribution = 'frontload',
-    respectLocks = true,
-    graceDays = 2,
-  } = opts;
-
-  const eventDate = parseISO(eventDateISO);
-  const today = parseISO(todayISO);
-
-  const ltDays = Math.max(differenceInCalendarDays(eventDate, today), 0);
-  const LTmonths = ltDays / 30.437;
-  const S = Math.min(Math.max(LTmonths / 12, 0), 2);
-
-  const notes: string[] = [];
-  if (LTmonths < 2) notes.push('Compressed schedule: weekly mode suggested');
-
-  const scaledWindows = blocks.map(b => {
-    const start = startOfWeek(subMonths(eventDate, Math.round(b.monthsBeforeStart * S)), { weekStartsOn: 1 });
-    const endRaw = subMonths(eventDate, Math.round(b.monthsBeforeEnd * S));
-    const end = startOfWeek(endRaw, { weekStartsOn: 1 });
-    const safeEnd = !isBefore(end, start) ? end : addDays(start, 7);
-    return {
-      blockId: b.id,
-      start,
-      end: safeEnd,
-      start_date: toISODate(start),
-      end_date: toISODate(safeEnd)
-    };
-  });
+  for (const task of snapshot.tasks) {
+    await supabase
+      .from('tasks')
+      .update({
+        due_date: task.due_date,
+        ...(task.start_date !== undefined && { start_date: task.start_date }),
+        overdue_on_original_plan: task.overdue_on_original_plan,
+        week_offset: task.week_offset ?? null,
+        needs_review: !!task.needs_review,
+      })
+      .eq('id', task.id)
+      .eq('timeline_id', timelineId);
+  }
 
-  const byBlock = new Map<string, Task[]>();
-  inputTasks.forEach(t => {
-    const arr = byBlock.get(t.block_id) || [];
-    arr.push(t);
-    byBlock.set(t.block_id, arr);
+  await supabase
+    .from('timelines')
+    .update({
+      last_recalculated_at: snapshot.last_recalculated_at,
+      scale_factor: snapshot.scale_factor,
+      schedule_mode: snapshot.schedule_mode ?? 'monthly',
+    })
+    .eq('id', timelineId);
+
+  await supabase
+    .from('recalculation_snapshots')
+    .update({ restored_at: new Date().toISOString() })
+    .eq('id', snapshot.id);
+
+  await supabase.from('audit_entries').insert({
+    timeline_id: timelineId,
+    task_id: null,
+    action: 'edit',
+    actor,
+    changes: {
+      type: 'recalculation_restore',
+      snapshot_id: snapshot.id,
+      blocks: snapshot.blocks.length,
+      tasks: snapshot.tasks.length,
+    },
   });
 
-  let updated = 0;
-  let skippedLocked = 0;
-  const idToTask = new Map(inputTasks.map(t => [t.id, t]));
-  const updatedTasks: Array<{ id: string; due_date: string; overdue_on_original_plan?: boolean }> = [];
-
-  scaledWindows.forEach(win => {
-    const blockTasks = (byBlock.get(win.blockId) || []).slice();
-
-    const lockedTasks = blockTasks.filter(t => t.locked && t.due_date);
-    const unlockedTasks = blockTasks.filter(t => !(respectLocks && t.locked));
-
-    unlockedTasks.sort((a, b) =>
-      (Number(b.is_skeleton) - Number(a.is_skeleton)) ||
-      (b.weight - a.weight) ||
-      a.title.localeCompare(b.title)
-    );
-
-    const anchors = lockedTasks
-      .map(t => ({ t, d: parseISO(t.due_date!) }))
-      .sort((a, b) => a.d.getTime() - b.d.getTime());
-
-    type Span = { start: Date; end: Date; tasks: Task[] };
-    const spans: Span[] = [];
-    let cursorStart = win.start;
-
-    anchors.forEach((a, idx) => {
-      const prevEnd = subDays(a.d, 1);
-      if (!isBefore(prevEnd, cursorStart)) {
-        spans.push({ start: cursorStart, end: prevEnd, tasks: [] });
-      }
-      cursorStart = addDays(a.d, 1);
-    });
-    if (!isBefore(win.end, cursorStart)) {
-      spans.push({ start: cursorStart, end: win.end, tasks: [] });
+  return new Response(
+    JSON.stringify({
+      success: true,
+      snapshot_id: snapshot.id,
+      restored_blocks: snapshot.blocks.length,
+      restored_tasks: snapshot.tasks.length,
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     }
-
-    let idx = 0;
-    unlockedTasks.forEach(t => {
-      if (spans.length === 0) return;
-      spans[idx % spans.length].tasks.push(t);
-      idx++;
-    });
-
-    spans.forEach(span => {
-      const spanDays = Math.max(differenceInCalendarDays(span.end, span.start), 1);
-      if (span.tasks.length === 0) return;
-
-      const N = span.tasks.length;
-
-      const positionForIndex = (i: number): number => {
-        if (distribution === 'even' || distribution === 'balanced') {
-          return Math.round((i / Math.max(N - 1, 1)) * spanDays);
-        } else {
-          const firstHalf = Math.ceil(N / 2);
-          if (i < firstHalf) {
-            const subDaysRange = Math.max(Math.round(0.25 * spanDays), 1);
-            return Math.round((i / Math.max(firstHalf - 1, 1)) * subDaysRange);
-          } else {
-            const j = i - firstHalf;
-            const secondN = N - firstHalf;
-            const startOffset = Math.max(Math.round(0.25 * spanDays), 1);
-            const range = Math.max(spanDays - startOffset, 1);
-            return startOffset + Math.round((j / Math.max(secondN - 1, 1)) * range);
-          }
-        }
-      };
-
-      span.tasks.forEach((t, i) => {
-        const base = addDays(span.start, positionForIndex(i));
-
-        let due = base;
-        const deps = (t.depends_on_task_ids || []).map(id => {
-          const dep = idToTask.get(id);
-          return dep?.due_date ? parseISO(dep.due_date) : null;
-        }).filter(Boolean) as Date[];
-        if (deps.length) {
-          const minDue = addDays(deps.reduce((acc, d) => maxDate(acc, d), deps[0]), 1);
-          due = maxDate(due, minDue);
-        }
-
-        due = minDate(maxDate(due, span.start), span.end);
-
-        let overdueOnOriginalPlan = false;
-        if (isBefore(due, today)) {
-          due = addDays(today, graceDays);
-          overdueOnOriginalPlan = true;
-        }
-
-        const prevISO = t.due_date;
-        if (!(respectLocks && t.locked)) {
-          const newDue = toISODate(due);
-          updatedTasks.push({
-            id: t.id,
-            due_date: newDue,
-            ...(overdueOnOriginalPlan && { overdue_on_original_plan: true })
-          });
-          if (newDue !== prevISO) updated++;
-        } else {
-          skippedLocked++;
-          if (t.due_date) {
-            updatedTasks.push({ id: t.id, due_date: t.due_date });
-          }
-        }
-      });
-    });
-
-    lockedTasks.forEach(t => {
-      if (t.due_date && !updatedTasks.find(ut => ut.id === t.id)) {
-        updatedTasks.push({ id: t.id, due_date: t.due_date });
-      }
-    });
-  });
-
-  return {
-    tasks: updatedTasks,
-    blocks: scaledWindows.map(w => ({ id: w.blockId, start_date: w.start_date, end_date: w.end_date })),
-    result: { updated, skippedLocked, scaleFactor: Number(S.toFixed(2)), notes }
-  };
-}
-
-function toISODate(d: Date): string {
-  const pad = (n: number) => String(n).padStart(2, '0');
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  );
 }
 
 Deno.serve(async (req: Request) => {
@@ -260,13 +128,9 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
     const url = new URL(req.url);
     const pathParts = url.pathname.split('/').filter(Boolean);
-    const timelineId = pathParts[pathParts.length - 1];
+    const timelineId = pathParts[1];
 
     if (!timelineId) {
       return new Response(
@@ -279,7 +143,99 @@ Deno.serve(async (req: Request) => {
     }
 
     const body = await req.json().catch(() => ({}));
-    const { respectLocks = true, distribution = 'frontload' } = body;
+
+    // Read-only staff may preview a recalculation but not apply or revert one
+    const isPreview = pathParts[2] !== 'restore' && body.dryRun === true;
+    const check = await requireStaffOrWebhook(req, isPreview ? undefined : EDITOR_ROLES);
+    if (check.actor === undefined) {
+      return new Response(
+        JSON.stringify({ error: check.error }),
+        {
+          status: check.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Staff read and write through RLS as themselves. Webhook callers have no
+    // Auth user, so their anon Authorization header would be denied every row.
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabase = isWebhookCaller(req)
+      ? createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+      : createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+          global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+        });
+
+    if (pathParts[2] === 'restore') {
+      return await restoreSnapshot(supabase, timelineId, body, check.actor);
+    }
+
+    const {
+      respectLocks = true,
+      distribution = 'frontload',
+      graceDays = 2,
+      todayISO,
+      dryRun = false,
+      capacity,
+      crossBlockDependencies = 'extend',
+    } = body;
+
+    if (!['frontload', 'balanced', 'even'].includes(distribution)) {
+      return new Response(
+        JSON.stringify({ error: 'distribution must be one of frontload, balanced, even' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (!Number.isInteger(graceDays) || graceDays < 0) {
+      return new Response(
+        JSON.stringify({ error: 'graceDays must be a non-negative integer' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (todayISO !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(todayISO))) {
+      return new Response(
+        JSON.stringify({ error: 'todayISO must be a date (YYYY-MM-DD)' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (!['extend', 'report'].includes(crossBlockDependencies)) {
+      return new Response(
+        JSON.stringify({ error: 'crossBlockDependencies must be one of extend, report' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const invalidCapacity = capacity !== undefined && (
+      typeof capacity !== 'object' || capacity === null ||
+      Object.entries(capacity).some(([assignee, limit]) =>
+        !['client', 'js', 'joint'].includes(assignee) || typeof limit !== 'number' || !(limit > 0)
+      )
+    );
+
+    if (invalidCapacity) {
+      return new Response(
+        JSON.stringify({ error: 'capacity must map client, js or joint to a positive weight per week' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
     const { data: timeline, error: timelineError } = await supabase
       .from('timelines')
@@ -345,6 +301,14 @@ Deno.serve(async (req: Request) => {
     const tasks = allTasks.filter(t => !generalBlockIds.has(t.block_id));
 
     const blocksWithOffsets = blocks.map(block => {
+      if (block.months_before_start != null && block.months_before_end != null) {
+        return {
+          ...block,
+          monthsBeforeStart: Number(block.months_before_start),
+          monthsBeforeEnd: Number(block.months_before_end),
+        };
+      }
+
       const offsets = getCanonicalOffsets(block.key);
       return {
         ...block,
@@ -353,67 +317,175 @@ Deno.serve(async (req: Request) => {
       };
     });
 
+    const missingOffsets = blocks.filter(block =>
+      (block.months_before_start == null || block.months_before_end == null) && !getCanonicalOffsets(block.key)
+    );
+
     const result = recalcTimelineDates({
       eventDateISO: eventDate,
       blocks: blocksWithOffsets,
       tasks,
       distribution: distribution as Distribution,
       respectLocks,
+      graceDays,
+      todayISO,
+      calendar: resolveWorkingCalendar(timeline.working_calendar, holidays),
+      capacity,
+      crossBlockDependencies: crossBlockDependencies as CrossBlockDependencyMode,
     });
 
-    for (const blockUpdate of result.blocks) {
-      await supabase
-        .from('blocks')
-        .update({
-          start_date: blockUpdate.start_date,
-          end_date: blockUpdate.end_date,
-        })
-        .eq('id', blockUpdate.id);
+    if (missingOffsets.length) {
+      result.result.notes.push(
+        `No month offsets for ${missingOffsets.map(block => block.title).join(', ')}: scheduled at the event date`
+      );
     }
 
-    for (const taskUpdate of result.tasks) {
+    let snapshotId: string | null = null;
+    const newTaskDates = new Map(result.tasks.map(t => [t.id, t]));
+    const newBlockDates = new Map(result.blocks.map(b => [b.id, b]));
+
+    if (!dryRun) {
+      const { data: snapshot, error: snapshotError } = await supabase
+        .from('recalculation_snapshots')
+        .insert({
+          timeline_id: timelineId,
+          blocks: blocks.map(b => ({ id: b.id, start_date: b.start_date ?? null, end_date: b.end_date ?? null })),
+          tasks: tasks.map(t => ({
+            id: t.id,
+            due_date: t.due_date ?? null,
+            start_date: t.start_date ?? null,
+            overdue_on_original_plan: !!t.overdue_on_original_plan,
+            week_offset: t.week_offset ?? null,
+            needs_review: !!t.needs_review,
+          })),
+          last_recalculated_at: timeline.last_recalculated_at,
+          scale_factor: timeline.scale_factor,
+          schedule_mode: timeline.schedule_mode,
+          options: {
+            distribution,
+            respectLocks,
+            graceDays,
+            todayISO: todayISO ?? null,
+            capacity: capacity ?? null,
+            crossBlockDependencies,
+          },
+        })
+        .select('id')
+        .single();
+
+      if (snapshotError) throw snapshotError;
+
+      for (const blockUpdate of result.blocks) {
+        await supabase
+          .from('blocks')
+          .update({
+            start_date: blockUpdate.start_date,
+            end_date: blockUpdate.end_date,
+          })
+          .eq('id', blockUpdate.id);
+      }
+
+      for (const taskUpdate of result.tasks) {
+        await supabase
+          .from('tasks')
+          .update({
+            due_date: taskUpdate.due_date,
+            ...(taskUpdate.start_date !== undefined && { start_date: taskUpdate.start_date }),
+            ...(taskUpdate.overdue_on_original_plan !== undefined && {
+              overdue_on_original_plan: taskUpdate.overdue_on_original_plan
+            }),
+            week_offset: taskUpdate.week_offset ?? null,
+            needs_review: !!taskUpdate.needs_review,
+          })
+          .eq('id', taskUpdate.id);
+      }
+
       await supabase
-        .from('tasks')
+        .from('timelines')
         .update({
-          due_date: taskUpdate.due_date,
-          ...(taskUpdate.overdue_on_original_plan !== undefined && {
-            overdue_on_original_plan: taskUpdate.overdue_on_original_plan
-          })
+          last_recalculated_at: new Date().toISOString(),
+          scale_factor: result.result.scaleFactor,
+          schedule_mode: result.result.scheduleMode,
         })
-        .eq('id', taskUpdate.id);
-    }
+        .eq('id', timelineId);
+
+      const { data: auditEntry } = await supabase
+        .from('audit_entries')
+        .insert({
+          timeline_id: timelineId,
+          task_id: null,
+          action: 'edit',
+          actor: check.actor,
+          changes: {
+            type: 'recalculation',
+            snapshot_id: snapshot.id,
+            scale_factor: result.result.scaleFactor,
+            schedule_mode: result.result.scheduleMode,
+            distribution,
+            respect_locks: respectLocks,
+            capacity: capacity ?? null,
+            cross_block_dependencies: crossBlockDependencies,
+            dependency_conflicts: result.result.conflicts.length,
+            updated: result.result.updated,
+            skipped_locked: result.result.skippedLocked,
+            notes: result.result.notes,
+          },
+        })
+        .select('id')
+        .single();
+
+      if (auditEntry) {
+        await supabase
+          .from('recalculation_snapshots')
+          .update({ audit_entry_id: auditEntry.id })
+          .eq('id', snapshot.id);
+      }
 
-    await supabase
-      .from('timelines')
-      .update({
-        last_recalculated_at: new Date().toISOString(),
-        scale_factor: result.result.scaleFactor,
-      })
-      .eq('id', timelineId);
-
-    await supabase.from('audit_entries').insert({
-      timeline_id: timelineId,
-      task_id: null,
-      action: 'edit',
-      actor: 'admin',
-      changes: {
-        type: 'recalculation',
-        scale_factor: result.result.scaleFactor,
-        distribution,
-        respect_locks: respectLocks,
-        updated: result.result.updated,
-        skipped_locked: result.result.skippedLocked,
-        notes: result.result.notes,
-      },
-    });
+      snapshotId = snapshot.id;
+    }
 
     return new Response(
       JSON.stringify({
         success: true,
+        dry_run: dryRun,
+        snapshot_id: snapshotId,
         updated: result.result.updated,
         skipped_locked: result.result.skippedLocked,
         scale_factor: result.result.scaleFactor,
+        lead_time_months: result.result.leadTimeMonths,
+        schedule_mode: result.result.scheduleMode,
+        needs_review: result.result.needsReview,
+        dependency_conflicts: result.result.conflicts.map(conflict => ({
+          task_id: conflict.taskId,
+          depends_on_task_id: conflict.dependsOnTaskId,
+          due_date: conflict.dueDate,
+          dependency_due_date: conflict.dependencyDueDate,
+        })),
         notes: result.result.notes,
+        blocks: blocks.map(block => ({
+          id: block.id,
+          title: block.title,
+          before: { start_date: block.start_date ?? null, end_date: block.end_date ?? null },
+          after: {
+            start_date: newBlockDates.get(block.id)?.start_date ?? null,
+            end_date: newBlockDates.get(block.id)?.end_date ?? null,
+          },
+        })),
+        tasks: tasks.map(task => ({
+          id: task.id,
+          block_id: task.block_id,
+          title: task.title,
+          locked: !!task.locked,
+          skipped: respectLocks && !!task.locked,
+          before: task.due_date ?? null,
+          after: newTaskDates.get(task.id)?.due_date ?? task.due_date ?? null,
+          start_before: task.start_date ?? null,
+          start_after: newTaskDates.get(task.id)?.start_date ?? task.start_date ?? null,
+          overdue_on_original_plan: newTaskDates.get(task.id)?.overdue_on_original_plan ?? false,
+          was_overdue_on_original_plan: !!task.overdue_on_original_plan,
+          week_offset: newTaskDates.get(task.id)?.week_offset ?? null,
+          needs_review: newTaskDates.get(task.id)?.needs_review ?? false,
+        })),
       }),
       {
         status: 200,
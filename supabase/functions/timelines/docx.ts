@@ -0,0 +1,210 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  CheckBox,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  HorizontalPositionAlign,
+  HorizontalPositionRelativeFrom,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  SectionType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  VerticalAlign,
+  VerticalPositionAlign,
+  VerticalPositionRelativeFrom,
+  WidthType,
+} from 'npm:docx@9.5.1';
+import { trafficLight, trafficLabel } from '../../../src/utils/trafficLight.ts';
+import { BRAND_NAME, loadBrandLogoJpeg, loadThemeBackgroundJpeg } from '../_shared/branding.ts';
+import { ASSIGNEE_LABELS, formatExportDate, progressOf, type ExportBlock, type ExportTask, type ExportTimeline } from './export-model.ts';
+
+// A4 at 96 dpi, the unit docx uses for image transformations.
+const PAGE_WIDTH_PX = 794;
+const PAGE_HEIGHT_PX = 1123;
+
+const MUTED = '6B7280';
+const SKELETON = 'C2410C';
+const RULE = 'E5E7EB';
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+const ROW_BORDER = { style: BorderStyle.SINGLE, size: 4, color: RULE };
+
+function taskRow(task: ExportTask): TableRow {
+  const cellBorders = { top: NO_BORDER, left: NO_BORDER, right: NO_BORDER, bottom: ROW_BORDER };
+
+  return new TableRow({
+    children: [
+      new TableCell({
+        width: { size: 6, type: WidthType.PERCENTAGE },
+        borders: cellBorders,
+        verticalAlign: VerticalAlign.CENTER,
+        children: [new Paragraph({ children: [new CheckBox({ checked: task.done })] })],
+      }),
+      new TableCell({
+        width: { size: 60, type: WidthType.PERCENTAGE },
+        borders: cellBorders,
+        verticalAlign: VerticalAlign.CENTER,
+        children: [
+          new Paragraph({
+            children: [
+              new TextRun({ text: task.title, strike: task.done, color: task.done ? MUTED : undefined }),
+              ...(task.is_skeleton ? [new TextRun({ text: '  Key task', bold: true, size: 16, color: SKELETON })] : []),
+            ],
+          }),
+        ],
+      }),
+      new TableCell({
+        width: { size: 16, type: WidthType.PERCENTAGE },
+        borders: cellBorders,
+        verticalAlign: VerticalAlign.CENTER,
+        children: [new Paragraph({ children: [new TextRun({ text: ASSIGNEE_LABELS[task.assignee] ?? task.assignee, size: 18, color: MUTED })] })],
+      }),
+      new TableCell({
+        width: { size: 18, type: WidthType.PERCENTAGE },
+        borders: cellBorders,
+        verticalAlign: VerticalAlign.CENTER,
+        children: [
+          new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ text: task.due_date ? formatExportDate(task.due_date) : '—', size: 18, color: MUTED })],
+          }),
+        ],
+      }),
+    ],
+  });
+}
+
+function blockChildren(block: ExportBlock): Array<Paragraph | Table> {
+  const blockProgress = progressOf(block.tasks || []);
+  const status = trafficLight(blockProgress.percentage);
+  const range = block.start_date && block.end_date
+    ? `${formatExportDate(block.start_date)} – ${formatExportDate(block.end_date)}  •  `
+    : '';
+
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({ heading: HeadingLevel.HEADING_2, spacing: { before: 240 }, children: [new TextRun(block.title)] }),
+    new Paragraph({
+      spacing: { after: 120 },
+      children: [
+        new TextRun({
+          text: `${range}${blockProgress.completedTasks} of ${blockProgress.totalTasks} tasks  •  ${blockProgress.percentage}% — ${trafficLabel(status)}`,
+          size: 18,
+          color: MUTED,
+        }),
+      ],
+    }),
+  ];
+
+  if (block.tasks?.length) {
+    children.push(new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: block.tasks.map(taskRow),
+    }));
+  }
+
+  return children;
+}
+
+export async function renderTimelineDocx(
+  timeline: ExportTimeline,
+  options: { includeBackground: boolean }
+): Promise<Uint8Array> {
+  const logo = await loadBrandLogoJpeg();
+  const watermark = options.includeBackground
+    ? await loadThemeBackgroundJpeg(timeline.theme_key || timeline.template_key, { fade: 0.85 })
+    : null;
+
+  const headerChildren: ImageRun[] = [];
+  if (watermark) {
+    const scale = Math.max(PAGE_WIDTH_PX / watermark.width, PAGE_HEIGHT_PX / watermark.height);
+    headerChildren.push(new ImageRun({
+      type: 'jpg',
+      data: watermark.bytes,
+      transformation: { width: Math.round(watermark.width * scale), height: Math.round(watermark.height * scale) },
+      floating: {
+        horizontalPosition: { relative: HorizontalPositionRelativeFrom.PAGE, align: HorizontalPositionAlign.CENTER },
+        verticalPosition: { relative: VerticalPositionRelativeFrom.PAGE, align: VerticalPositionAlign.CENTER },
+        behindDocument: true,
+        allowOverlap: true,
+      },
+      altText: { name: 'Theme watermark', description: 'Theme background', title: 'Theme watermark' },
+    }));
+  }
+  if (logo) {
+    const height = 24;
+    headerChildren.push(new ImageRun({
+      type: 'jpg',
+      data: logo.bytes,
+      transformation: { width: Math.round((logo.width / logo.height) * height), height },
+      altText: { name: BRAND_NAME, description: `${BRAND_NAME} logo`, title: BRAND_NAME },
+    }));
+  }
+
+  const headers = {
+    default: new Header({
+      children: [new Paragraph({ children: headerChildren.length ? headerChildren : [new TextRun({ text: BRAND_NAME, bold: true })] })],
+    }),
+  };
+  const footers = {
+    default: new Footer({
+      children: [
+        new Paragraph({
+          alignment: AlignmentType.RIGHT,
+          children: [
+            new TextRun({
+              children: [`${BRAND_NAME}  •  Page `, PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+              size: 16,
+              color: MUTED,
+            }),
+          ],
+        }),
+      ],
+    }),
+  };
+
+  const includeGeneral = timeline.include_general_in_totals ?? true;
+  const blocks = timeline.blocks || [];
+  const overall = progressOf(
+    blocks.filter(block => includeGeneral || !block.is_general).flatMap(block => block.tasks || [])
+  );
+  const overallStatus = trafficLight(overall.percentage);
+  const details = [formatExportDate(timeline.event?.date), timeline.event?.venue].filter(Boolean).join('  •  ');
+
+  const doc = new Document({
+    creator: BRAND_NAME,
+    title: `${timeline.event?.code ?? ''} — ${timeline.event?.title ?? ''}`,
+    sections: [
+      {
+        headers,
+        footers,
+        children: [
+          new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(timeline.event?.title ?? '')] }),
+          new Paragraph({ children: [new TextRun({ text: [timeline.event?.code, details].filter(Boolean).join('  •  '), color: MUTED })] }),
+          new Paragraph({
+            spacing: { before: 240 },
+            children: [
+              new TextRun({ text: `Overall progress: ${overall.percentage}% — ${trafficLabel(overallStatus)}`, bold: true }),
+              new TextRun({ text: `  (${overall.completedTasks} of ${overall.totalTasks} tasks complete)`, color: MUTED }),
+            ],
+          }),
+        ],
+      },
+      ...blocks.map(block => ({
+        properties: { type: SectionType.CONTINUOUS },
+        headers,
+        footers,
+        children: blockChildren(block),
+      })),
+    ],
+  });
+
+  return new Uint8Array(await Packer.toArrayBuffer(doc));
+}
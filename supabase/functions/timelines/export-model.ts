@@ -0,0 +1,50 @@
+export interface ExportTask {
+  title: string;
+  assignee: 'client' | 'js' | 'joint';
+  weight: number;
+  is_skeleton: boolean;
+  due_date?: string;
+  done: boolean;
+}
+
+export interface ExportBlock {
+  title: string;
+  start_date?: string;
+  end_date?: string;
+  is_general?: boolean;
+  tasks?: ExportTask[];
+}
+
+export interface ExportTimeline {
+  template_key: string;
+  theme_key?: string;
+  include_general_in_totals?: boolean;
+  event?: { code: string; title: string; date?: string; venue?: string };
+  blocks?: ExportBlock[];
+}
+
+export const ASSIGNEE_LABELS: Record<ExportTask['assignee'], string> = {
+  client: 'Client',
+  js: 'JustSeventy',
+  joint: 'Joint',
+};
+
+export function progressOf(tasks: ExportTask[]) {
+  const totalWeight = tasks.reduce((sum, task) => sum + task.weight, 0);
+  const completedWeight = tasks.reduce((sum, task) => sum + (task.done ? task.weight : 0), 0);
+  return {
+    completedTasks: tasks.filter(task => task.done).length,
+    totalTasks: tasks.length,
+    percentage: totalWeight > 0 ? Math.round((completedWeight / totalWeight) * 100) : 0,
+  };
+}
+
+export function formatExportDate(value?: string): string {
+  if (!value) return '';
+  return new Date(`${value.substring(0, 10)}T00:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
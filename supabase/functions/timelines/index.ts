@@ -1,4 +1,10 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { renderTimelinePdf, type PdfExportMode } from './pdf.ts';
+import { renderTimelineDocx } from './docx.ts';
+import { findDependencyCycle } from '../../../src/utils/dependencies.ts';
+import { canClientToggle } from '../../../src/utils/assignee.ts';
+import { EDITOR_ROLES, requireStaff } from '../_shared/staff.ts';
+import { clientPortalUrl, publicAppUrl, shortShareUrl } from '../_shared/appUrl.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,17 +18,107 @@ function generateToken(): string {
   return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
+const TASK_CSV_COLUMNS = [
+  'block_order',
+  'block_title',
+  'block_start_date',
+  'block_end_date',
+  'task_title',
+  'assignee',
+  'weight',
+  'is_skeleton',
+  'due_date',
+  'done',
+  'done_by',
+  'done_at',
+  'locked',
+  'overdue_on_original_plan',
+];
+
+const AUDIT_CSV_COLUMNS = ['timestamp', 'action', 'actor', 'task_title', 'changes'];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function csvRow(values: unknown[]): string {
+  return values.map(csvValue).join(',');
+}
+
+async function fetchTimeline(supabase: ReturnType<typeof createClient>, timelineId: string) {
+  const { data: timeline, error } = await supabase
+    .from('timelines')
+    .select(`
+      *,
+      event:events(*),
+      blocks(
+        *,
+        tasks(
+          *
+        )
+      )
+    `)
+    .eq('id', timelineId)
+    .single();
+
+  if (error) throw error;
+
+  if (timeline.blocks) {
+    timeline.blocks.sort((a, b) => a.order - b.order);
+    timeline.blocks.forEach(block => {
+      if (block.tasks) {
+        block.tasks.sort((a, b) => a.order - b.order);
+      }
+    });
+  }
+
+  return timeline;
+}
+
+// Share tokens only open the client-facing documents, so the token caller gets
+// the same tasks the portal lets them act on.
+const SHARE_TOKEN_EXPORTS = ['export.pdf', 'export.docx'];
+
+// The client portal has no staff session and anon has no table access, so a
+// share token is checked here and its timeline read with the service role,
+// without JustSeventy's internal tasks.
+async function fetchSharedTimeline(token: string, timelineId: string) {
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: shareLink, error } = await serviceClient
+    .from('share_links')
+    .select('timeline_id, expires_at, revoked_at')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (
+    !shareLink ||
+    shareLink.revoked_at ||
+    shareLink.timeline_id !== timelineId ||
+    new Date(shareLink.expires_at) <= new Date()
+  ) {
+    return null;
+  }
+
+  const timeline = await fetchTimeline(serviceClient, timelineId);
+  timeline.blocks?.forEach(block => {
+    block.tasks = block.tasks?.filter(task => canClientToggle(task.assignee));
+  });
+  return timeline;
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 200, headers: corsHeaders });
   }
 
   try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-    );
-
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       return new Response(
@@ -31,39 +127,163 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Reads run as the caller so row level security decides what they can see:
+    // staff see every timeline, the anon key nothing (share tokens are handled
+    // by fetchSharedTimeline).
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const editorCheck = req.method === 'GET' ? null : await requireStaff(req, EDITOR_ROLES);
+    if (editorCheck && !editorCheck.staff) {
+      return new Response(
+        JSON.stringify({ error: editorCheck.error }),
+        { status: editorCheck.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const actor = editorCheck?.staff.email;
+
     const url = new URL(req.url);
     const pathParts = url.pathname.split('/').filter(Boolean);
 
     if (req.method === 'GET') {
-      if (pathParts.length === 2) {
-        const timelineId = pathParts[1];
-        
-        const { data: timeline, error } = await supabase
-          .from('timelines')
-          .select(`
-            *,
-            event:events(*),
-            blocks(
-              *,
-              tasks(
-                *
-              )
-            )
-          `)
-          .eq('id', timelineId)
-          .single();
+      const shareToken = url.searchParams.get('token');
+      let sharedTimeline = null;
+      if (shareToken) {
+        if (pathParts.length !== 3 || !SHARE_TOKEN_EXPORTS.includes(pathParts[2])) {
+          return new Response(
+            JSON.stringify({ error: 'Share links can only download the PDF and Word exports' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
 
-        if (error) throw error;
+        sharedTimeline = await fetchSharedTimeline(shareToken, pathParts[1]);
+        if (!sharedTimeline) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid or expired link' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
 
-        if (timeline.blocks) {
-          timeline.blocks.sort((a, b) => a.order - b.order);
-          timeline.blocks.forEach(block => {
-            if (block.tasks) {
-              block.tasks.sort((a, b) => a.order - b.order);
-            }
-          });
+      if (pathParts.length === 3 && pathParts[2] === 'export.csv') {
+        const timelineId = pathParts[1];
+        const includeAudit = url.searchParams.get('includeAudit') === 'true';
+
+        const timeline = await fetchTimeline(supabase, timelineId);
+
+        const taskTitles = new Map<string, string>();
+        const lines = [csvRow(TASK_CSV_COLUMNS)];
+
+        for (const block of timeline.blocks || []) {
+          for (const task of block.tasks || []) {
+            taskTitles.set(task.id, task.title);
+            lines.push(csvRow([
+              block.order,
+              block.title,
+              block.start_date,
+              block.end_date,
+              task.title,
+              task.assignee,
+              task.weight,
+              task.is_skeleton,
+              task.due_date,
+              task.done,
+              task.done_by,
+              task.done_at,
+              task.locked ?? false,
+              task.overdue_on_original_plan ?? false,
+            ]));
+          }
+        }
+
+        if (includeAudit) {
+          const { data: auditEntries, error: auditError } = await supabase
+            .from('audit_entries')
+            .select('*')
+            .eq('timeline_id', timelineId)
+            .order('timestamp', { ascending: true });
+
+          if (auditError) throw auditError;
+
+          lines.push('');
+          lines.push(csvRow(AUDIT_CSV_COLUMNS));
+          for (const entry of auditEntries || []) {
+            lines.push(csvRow([
+              entry.timestamp,
+              entry.action,
+              entry.actor,
+              entry.task_id ? taskTitles.get(entry.task_id) ?? entry.task_id : '',
+              entry.changes,
+            ]));
+          }
         }
 
+        const filename = `${timeline.event?.code || timelineId}-timeline.csv`;
+
+        return new Response(
+          lines.join('\r\n'),
+          {
+            status: 200,
+            headers: {
+              ...corsHeaders,
+              'Content-Type': 'text/csv; charset=utf-8',
+              'Content-Disposition': `attachment; filename="${filename}"`,
+            },
+          }
+        );
+      }
+
+      if (pathParts.length === 3 && pathParts[2] === 'export.pdf') {
+        const timelineId = pathParts[1];
+        const mode: PdfExportMode = url.searchParams.get('mode') === 'full' ? 'full' : 'status';
+        const includeBackground = url.searchParams.get('background') !== 'false';
+
+        const timeline = sharedTimeline ?? await fetchTimeline(supabase, timelineId);
+        const pdf = await renderTimelinePdf(timeline, { mode, includeBackground });
+        const filename = `${timeline.event?.code || timelineId}-${mode}.pdf`;
+
+        return new Response(
+          pdf,
+          {
+            status: 200,
+            headers: {
+              ...corsHeaders,
+              'Content-Type': 'application/pdf',
+              'Content-Disposition': `attachment; filename="${filename}"`,
+            },
+          }
+        );
+      }
+
+      if (pathParts.length === 3 && pathParts[2] === 'export.docx') {
+        const timelineId = pathParts[1];
+        const includeBackground = url.searchParams.get('background') !== 'false';
+
+        const timeline = sharedTimeline ?? await fetchTimeline(supabase, timelineId);
+        const docx = await renderTimelineDocx(timeline, { includeBackground });
+        const filename = `${timeline.event?.code || timelineId}-timeline.docx`;
+
+        return new Response(
+          docx,
+          {
+            status: 200,
+            headers: {
+              ...corsHeaders,
+              'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+              'Content-Disposition': `attachment; filename="${filename}"`,
+            },
+          }
+        );
+      }
+
+      if (pathParts.length === 2) {
+        const timelineId = pathParts[1];
+
+        const timeline = await fetchTimeline(supabase, timelineId);
+
         const totalWeight = timeline.blocks?.reduce((sum, block) =>
           sum + (block.tasks?.reduce((taskSum, task) => taskSum + task.weight, 0) || 0), 0
         ) || 0;
@@ -124,7 +344,7 @@ Deno.serve(async (req: Request) => {
         changes.done = { from: task.done, to: updates.done };
         updateData.done = updates.done;
         updateData.done_at = updates.done ? new Date().toISOString() : null;
-        updateData.done_by = updates.done ? (updates.actor || 'admin') : null;
+        updateData.done_by = updates.done ? actor : null;
       }
 
       if (updates.assignee !== undefined && updates.assignee !== task.assignee) {
@@ -142,6 +362,83 @@ Deno.serve(async (req: Request) => {
         updateData.weight = updates.weight;
       }
 
+      if (updates.locked !== undefined && updates.locked !== task.locked) {
+        changes.locked = { from: task.locked, to: updates.locked };
+        updateData.locked = updates.locked;
+      }
+
+      if (updates.start_date !== undefined && updates.start_date !== task.start_date) {
+        if (updates.start_date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(String(updates.start_date))) {
+          return new Response(
+            JSON.stringify({ error: 'start_date must be a date (YYYY-MM-DD) or null' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        changes.start_date = { from: task.start_date, to: updates.start_date };
+        updateData.start_date = updates.start_date;
+      }
+
+      for (const field of ['duration_days', 'min_lead_days_before_event']) {
+        const value = updates[field];
+        if (value === undefined || value === task[field]) continue;
+        if (value !== null && (!Number.isInteger(value) || value < 0)) {
+          return new Response(
+            JSON.stringify({ error: `${field} must be a non-negative whole number of days or null` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        changes[field] = { from: task[field], to: value };
+        updateData[field] = value;
+      }
+
+      if (updates.depends_on_task_ids !== undefined) {
+        const dependsOn: unknown = updates.depends_on_task_ids;
+
+        if (!Array.isArray(dependsOn) || dependsOn.some(depId => typeof depId !== 'string')) {
+          return new Response(
+            JSON.stringify({ error: 'depends_on_task_ids must be an array of task ids' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: timelineTasks, error: timelineTasksError } = await supabase
+          .from('tasks')
+          .select('id, title, is_skeleton, depends_on_task_ids')
+          .eq('timeline_id', timelineId);
+
+        if (timelineTasksError) throw timelineTasksError;
+
+        const taskIds = new Set(timelineTasks.map(t => t.id));
+        const unknown = dependsOn.filter(depId => !taskIds.has(depId));
+        if (unknown.length) {
+          return new Response(
+            JSON.stringify({ error: 'Dependencies must be tasks in this timeline', unknown }),
+            { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const nextDependsOn = Array.from(new Set(dependsOn as string[]));
+        const cycle = findDependencyCycle(
+          timelineTasks.map(t => (t.id === taskId ? { ...t, depends_on_task_ids: nextDependsOn } : t))
+        );
+        if (cycle) {
+          const titles = new Map(timelineTasks.map(t => [t.id, t.title]));
+          return new Response(
+            JSON.stringify({
+              error: `Dependency cycle: ${cycle.map(id => titles.get(id)).join(' → ')}`,
+              cycle,
+            }),
+            { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const previous = task.depends_on_task_ids || [];
+        if (nextDependsOn.length !== previous.length || nextDependsOn.some(depId => !previous.includes(depId))) {
+          changes.depends_on_task_ids = { from: previous, to: nextDependsOn };
+          updateData.depends_on_task_ids = nextDependsOn;
+        }
+      }
+
       const { data: updatedTask, error: updateError } = await supabase
         .from('tasks')
         .update(updateData)
@@ -160,7 +457,7 @@ Deno.serve(async (req: Request) => {
         timeline_id: timelineId,
         task_id: taskId,
         action,
-        actor: updates.actor || 'admin',
+        actor,
         changes,
       });
 
@@ -172,12 +469,37 @@ Deno.serve(async (req: Request) => {
 
     if (req.method === 'POST' && pathParts.length === 3 && pathParts[2] === 'share') {
       const timelineId = pathParts[1];
-      const { expiresInDays = 90 } = await req.json();
+      const { label = null, displayName = null, email = null, expiresInDays = 90, readOnly = false } = await req.json();
+
+      for (const [field, value] of [['label', label], ['displayName', displayName]]) {
+        if (value !== null && (typeof value !== 'string' || value.trim().length > 80)) {
+          return new Response(
+            JSON.stringify({ error: `${field} must be a string of at most 80 characters` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+      if (email !== null && (typeof email !== 'string' || (email.trim() && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email.trim())))) {
+        return new Response(
+          JSON.stringify({ error: 'email must be a valid email address' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 730) {
+        return new Response(
+          JSON.stringify({ error: 'expiresInDays must be a whole number of days between 1 and 730' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (typeof readOnly !== 'boolean') {
+        return new Response(
+          JSON.stringify({ error: 'readOnly must be a boolean' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-      await supabase
-        .from('share_links')
-        .delete()
-        .eq('timeline_id', timelineId);
+      // Checked up front so a missing app URL does not leave an unusable link behind.
+      publicAppUrl();
 
       const token = generateToken();
       const expiresAt = new Date();
@@ -188,6 +510,10 @@ Deno.serve(async (req: Request) => {
         .insert({
           timeline_id: timelineId,
           token,
+          label: label?.trim() || null,
+          display_name: displayName?.trim() || null,
+          email: email?.trim() || null,
+          read_only: readOnly,
           expires_at: expiresAt.toISOString(),
         })
         .select()
@@ -195,12 +521,26 @@ Deno.serve(async (req: Request) => {
 
       if (error) throw error;
 
-      const baseUrl = Deno.env.get('SUPABASE_URL')?.replace(/\/$/g, '') || '';
-      const shareUrl = `${baseUrl}/timeline?token=${token}`;
+      await supabase.from('audit_entries').insert({
+        timeline_id: timelineId,
+        task_id: null,
+        action: 'create',
+        actor,
+        changes: {
+          type: 'share_link',
+          share_link_id: shareLink.id,
+          label: shareLink.label,
+          display_name: shareLink.display_name,
+          read_only: shareLink.read_only,
+          expires_at: shareLink.expires_at,
+        },
+      });
 
       return new Response(
         JSON.stringify({
-          url: shareUrl,
+          ...shareLink,
+          url: shortShareUrl(shareLink.short_code),
+          clientUrl: clientPortalUrl(token),
           token,
           expiresAt: shareLink.expires_at,
         }),
@@ -208,6 +548,42 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (req.method === 'POST' && pathParts.length === 5 && pathParts[2] === 'share' && pathParts[4] === 'revoke') {
+      const timelineId = pathParts[1];
+      const shareLinkId = pathParts[3];
+
+      const { data: shareLink, error } = await supabase
+        .from('share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', shareLinkId)
+        .eq('timeline_id', timelineId)
+        .is('revoked_at', null)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!shareLink) {
+        return new Response(
+          JSON.stringify({ error: 'Share link not found or already revoked' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      await supabase.from('audit_entries').insert({
+        timeline_id: timelineId,
+        task_id: null,
+        action: 'edit',
+        actor,
+        changes: { type: 'share_link_revoked', share_link_id: shareLink.id, label: shareLink.label },
+      });
+
+      return new Response(
+        JSON.stringify(shareLink),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     return new Response(
       JSON.stringify({ error: 'Not found' }),
       { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
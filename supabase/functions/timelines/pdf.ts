@@ -0,0 +1,256 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, PageSizes, StandardFonts, rgb, type RGB } from 'npm:pdf-lib@1.17.1';
+import { trafficLight, trafficLabel, type TrafficStatus } from '../../../src/utils/trafficLight.ts';
+import { BRAND_NAME, loadBrandLogoJpeg, loadThemeBackgroundJpeg } from '../_shared/branding.ts';
+import { ASSIGNEE_LABELS, formatExportDate, progressOf, type ExportTimeline } from './export-model.ts';
+
+export type PdfExportMode = 'status' | 'full';
+
+const MARGIN = 48;
+const HEADER_HEIGHT = 56;
+const FOOTER_HEIGHT = 28;
+
+const INK = rgb(0.067, 0.094, 0.153);
+const MUTED = rgb(0.42, 0.447, 0.502);
+const RULE = rgb(0.898, 0.906, 0.922);
+const SKELETON = rgb(0.761, 0.255, 0.047);
+
+const TRAFFIC_COLORS: Record<TrafficStatus, RGB> = {
+  red: rgb(0.937, 0.267, 0.267),
+  amber: rgb(0.961, 0.62, 0.043),
+  green: rgb(0.063, 0.725, 0.506),
+  done: rgb(0.016, 0.471, 0.341),
+};
+
+// Standard PDF fonts only cover WinAnsi, so drop anything they cannot draw
+// rather than letting pdf-lib throw halfway through a report.
+function printable(font: PDFFont, value: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(value).filter(ch => supported.has(ch.codePointAt(0)!)).join('');
+}
+
+function wrapText(font: PDFFont, value: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of printable(font, value).split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines.length ? lines : [''];
+}
+
+export async function renderTimelinePdf(
+  timeline: ExportTimeline,
+  options: { mode: PdfExportMode; includeBackground: boolean }
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const eventLabel = `${timeline.event?.code ?? ''} — ${timeline.event?.title ?? ''}`;
+  doc.setTitle(eventLabel);
+  doc.setCreator(BRAND_NAME);
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const logoImage = await loadBrandLogoJpeg();
+  const logo: PDFImage | null = logoImage ? await doc.embedJpg(logoImage.bytes) : null;
+
+  const backgroundImage = options.includeBackground
+    ? await loadThemeBackgroundJpeg(timeline.theme_key || timeline.template_key)
+    : null;
+  const background: PDFImage | null = backgroundImage ? await doc.embedJpg(backgroundImage.bytes) : null;
+
+  const [pageWidth, pageHeight] = PageSizes.A4;
+  const contentWidth = pageWidth - MARGIN * 2;
+  let page: PDFPage = doc.addPage(PageSizes.A4);
+  let y = 0;
+
+  function decoratePage() {
+    if (background) {
+      const scale = Math.max(pageWidth / background.width, pageHeight / background.height);
+      const width = background.width * scale;
+      const height = background.height * scale;
+      page.drawImage(background, {
+        x: (pageWidth - width) / 2,
+        y: (pageHeight - height) / 2,
+        width,
+        height,
+        opacity: 0.15,
+      });
+    }
+
+    const headerY = pageHeight - MARGIN;
+    if (logo) {
+      const logoSize = logo.scaleToFit(120, 24);
+      page.drawImage(logo, { x: MARGIN, y: headerY - logoSize.height, ...logoSize });
+    } else {
+      page.drawText(printable(bold, BRAND_NAME), { x: MARGIN, y: headerY - 16, size: 14, font: bold, color: INK });
+    }
+
+    const headerText = printable(font, eventLabel);
+    const headerSize = 9;
+    page.drawText(headerText, {
+      x: pageWidth - MARGIN - font.widthOfTextAtSize(headerText, headerSize),
+      y: headerY - 14,
+      size: headerSize,
+      font,
+      color: MUTED,
+    });
+    page.drawLine({
+      start: { x: MARGIN, y: headerY - 32 },
+      end: { x: pageWidth - MARGIN, y: headerY - 32 },
+      thickness: 0.75,
+      color: RULE,
+    });
+
+    y = pageHeight - MARGIN - HEADER_HEIGHT;
+  }
+
+  function ensureSpace(height: number) {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      page = doc.addPage(PageSizes.A4);
+      decoratePage();
+    }
+  }
+
+  function drawText(value: string, x: number, size: number, textFont = font, color = INK) {
+    page.drawText(printable(textFont, value), { x, y, size, font: textFont, color });
+  }
+
+  function drawProgressBar(x: number, width: number, pct: number, status: TrafficStatus) {
+    page.drawRectangle({ x, y: y - 2, width, height: 6, color: RULE });
+    if (pct > 0) {
+      page.drawRectangle({ x, y: y - 2, width: width * Math.min(pct, 100) / 100, height: 6, color: TRAFFIC_COLORS[status] });
+    }
+  }
+
+  decoratePage();
+
+  const includeGeneral = timeline.include_general_in_totals ?? true;
+  const blocks = timeline.blocks || [];
+  const countedTasks = blocks
+    .filter(block => includeGeneral || !block.is_general)
+    .flatMap(block => block.tasks || []);
+  const overall = progressOf(countedTasks);
+  const overallStatus = trafficLight(overall.percentage);
+
+  drawText(options.mode === 'status' ? 'Status Report' : 'Full Checklist', MARGIN, 22, bold);
+  y -= 22;
+  drawText(timeline.event?.title ?? '', MARGIN, 13, font, INK);
+  y -= 16;
+  const details = [formatExportDate(timeline.event?.date), timeline.event?.venue].filter(Boolean).join('  •  ');
+  if (details) {
+    drawText(details, MARGIN, 10, font, MUTED);
+    y -= 14;
+  }
+  drawText(`Generated ${formatExportDate(new Date().toISOString())}`, MARGIN, 9, font, MUTED);
+  y -= 30;
+
+  drawText(`${overall.percentage}%`, MARGIN, 28, bold, TRAFFIC_COLORS[overallStatus]);
+  drawText(trafficLabel(overallStatus), MARGIN + 90, 12, bold, TRAFFIC_COLORS[overallStatus]);
+  y -= 14;
+  drawText(`${overall.completedTasks} of ${overall.totalTasks} tasks complete`, MARGIN + 90, 10, font, MUTED);
+  y -= 18;
+  drawProgressBar(MARGIN, contentWidth, overall.percentage, overallStatus);
+  y -= 32;
+
+  drawText('Progress by phase', MARGIN, 13, bold);
+  y -= 20;
+
+  for (const block of blocks) {
+    const blockProgress = progressOf(block.tasks || []);
+    const status = trafficLight(blockProgress.percentage);
+    ensureSpace(34);
+
+    drawText(block.title, MARGIN, 11, bold);
+    const label = `${blockProgress.percentage}% — ${trafficLabel(status)}`;
+    page.drawText(printable(bold, label), {
+      x: pageWidth - MARGIN - bold.widthOfTextAtSize(printable(bold, label), 10),
+      y,
+      size: 10,
+      font: bold,
+      color: TRAFFIC_COLORS[status],
+    });
+    y -= 13;
+
+    const range = block.start_date && block.end_date
+      ? `${formatExportDate(block.start_date)} – ${formatExportDate(block.end_date)}  •  `
+      : '';
+    drawText(`${range}${blockProgress.completedTasks} of ${blockProgress.totalTasks} tasks`, MARGIN, 9, font, MUTED);
+    y -= 10;
+    drawProgressBar(MARGIN, contentWidth, blockProgress.percentage, status);
+    y -= 18;
+  }
+
+  if (options.mode === 'full') {
+    const titleWidth = contentWidth - 190;
+
+    for (const block of blocks) {
+      const blockProgress = progressOf(block.tasks || []);
+      const status = trafficLight(blockProgress.percentage);
+      ensureSpace(60);
+      y -= 14;
+
+      drawText(block.title, MARGIN, 14, bold);
+      const label = `${blockProgress.percentage}% — ${trafficLabel(status)}`;
+      page.drawText(printable(bold, label), {
+        x: pageWidth - MARGIN - bold.widthOfTextAtSize(printable(bold, label), 10),
+        y,
+        size: 10,
+        font: bold,
+        color: TRAFFIC_COLORS[status],
+      });
+      y -= 8;
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: pageWidth - MARGIN, y }, thickness: 0.75, color: RULE });
+      y -= 16;
+
+      for (const task of block.tasks || []) {
+        const lines = wrapText(font, task.title, 10, titleWidth);
+        const rowHeight = lines.length * 13 + (task.is_skeleton ? 11 : 0) + 6;
+        ensureSpace(rowHeight);
+
+        page.drawRectangle({
+          x: MARGIN,
+          y: y - 2,
+          width: 9,
+          height: 9,
+          borderColor: MUTED,
+          borderWidth: 0.75,
+          color: task.done ? TRAFFIC_COLORS.done : undefined,
+        });
+        drawText(ASSIGNEE_LABELS[task.assignee] ?? task.assignee, MARGIN + titleWidth + 28, 9, font, MUTED);
+        drawText(task.due_date ? formatExportDate(task.due_date) : '—', MARGIN + titleWidth + 110, 9, font, MUTED);
+
+        lines.forEach((line, index) => {
+          drawText(line, MARGIN + 18, 10, font, task.done ? MUTED : INK);
+          if (index < lines.length - 1) y -= 13;
+        });
+        if (task.is_skeleton) {
+          y -= 11;
+          drawText('Key task', MARGIN + 18, 8, bold, SKELETON);
+        }
+        y -= 19;
+      }
+    }
+  }
+
+  const pages = doc.getPages();
+  pages.forEach((p, index) => {
+    const footer = `${BRAND_NAME}  •  Page ${index + 1} of ${pages.length}`;
+    p.drawText(printable(font, footer), {
+      x: pageWidth - MARGIN - font.widthOfTextAtSize(printable(font, footer), 8),
+      y: MARGIN - 12,
+      size: 8,
+      font,
+      color: MUTED,
+    });
+  });
+
+  return await doc.save();
+}
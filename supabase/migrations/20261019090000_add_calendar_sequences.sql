@@ -0,0 +1,67 @@
+/*
+  # Add calendar sequence counters for the iCalendar feed
+
+  Calendar apps only replace an existing entry when its SEQUENCE goes up, so every
+  date change needs a monotonically increasing counter per VEVENT.
+
+  ## Changes
+
+  1. Tasks
+    - Add `due_date_sequence` (integer, default 0): incremented whenever `due_date` changes
+
+  2. Events
+    - Add `date_sequence` (integer, default 0): incremented whenever `date` changes
+
+  3. Triggers
+    - `bump_task_due_date_sequence` on tasks BEFORE UPDATE
+    - `bump_event_date_sequence` on events BEFORE UPDATE
+
+  ## Notes
+  - Triggers cover every writer (recalculation, manual edits, JS Live webhook)
+  - Existing rows start at 0
+*/
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS due_date_sequence integer NOT NULL DEFAULT 0;
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS date_sequence integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION bump_task_due_date_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    NEW.due_date_sequence := OLD.due_date_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_task_due_date_sequence ON tasks;
+CREATE TRIGGER bump_task_due_date_sequence
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_task_due_date_sequence();
+
+CREATE OR REPLACE FUNCTION bump_event_date_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.date IS DISTINCT FROM OLD.date THEN
+    NEW.date_sequence := OLD.date_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_event_date_sequence ON events;
+CREATE TRIGGER bump_event_date_sequence
+  BEFORE UPDATE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_event_date_sequence();
+
+COMMENT ON COLUMN tasks.due_date_sequence IS 'iCalendar SEQUENCE for this task, incremented on every due_date change';
+COMMENT ON COLUMN events.date_sequence IS 'iCalendar SEQUENCE for the event date, incremented on every date change';
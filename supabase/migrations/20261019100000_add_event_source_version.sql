@@ -0,0 +1,61 @@
+/*
+  # Add Event Source Version for JS Live Date Sync
+
+  The admin timeline view polls the event's "source head" and writes date changes
+  back with the version it last saw, so concurrent edits from JS Live and the admin
+  UI can be detected instead of silently overwriting each other.
+
+  ## Changes
+
+  1. Events
+    - Add `source_version` (bigint, default 1): incremented whenever `date` changes
+    - `bump_event_source_version` BEFORE UPDATE trigger owns the column, so writers
+      cannot set it directly
+
+  2. Event Date Mutations
+    - New `event_date_mutations` table keyed by `client_mutation_id`
+    - Records the outcome of each `PUT /events/{id}/date` so retries of the same
+      mutation return the original result instead of conflicting with themselves
+
+  ## Notes
+  - Only the `events` edge function (service role) writes to `event_date_mutations`
+  - Existing events start at version 1
+*/
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS source_version bigint NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_event_source_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.date IS DISTINCT FROM OLD.date THEN
+    NEW.source_version := OLD.source_version + 1;
+  ELSE
+    NEW.source_version := OLD.source_version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_event_source_version ON events;
+CREATE TRIGGER bump_event_source_version
+  BEFORE UPDATE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_event_source_version();
+
+CREATE TABLE IF NOT EXISTS event_date_mutations (
+  client_mutation_id text PRIMARY KEY,
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  source_version bigint NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_date_mutations_event_id ON event_date_mutations(event_id);
+
+ALTER TABLE event_date_mutations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN events.source_version IS 'Monotonic version of the event date, used for compare-and-set writes from the admin UI and JS Live';
+COMMENT ON TABLE event_date_mutations IS 'Idempotency log for event date writes, keyed by the caller-supplied clientMutationId';
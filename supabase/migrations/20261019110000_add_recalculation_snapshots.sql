@@ -0,0 +1,87 @@
+/*
+  # Add Recalculation Snapshots
+
+  Recalculation overwrites every block window and task due date, and the audit entry
+  only records counts. Snapshots keep the previous values so a recalculation can be
+  reverted.
+
+  ## Changes
+
+  1. Recalculation Snapshots
+    - New `recalculation_snapshots` table, one row per applied (non dry-run) recalculation
+    - `blocks` (jsonb): `[{ id, start_date, end_date }]` before the run
+    - `tasks` (jsonb): `[{ id, due_date, overdue_on_original_plan }]` before the run
+    - `last_recalculated_at` / `scale_factor`: timeline values before the run
+    - `audit_entry_id`: the audit entry written for the recalculation
+    - `restored_at`: set when the snapshot has been restored
+
+  2. Security
+    - RLS enabled with admin read/insert/update policies scoped to existing timelines,
+      matching the admin task policies
+
+  ## Notes
+  - Restoring is done by `POST /timelines-recalculate/{id}/restore`
+  - Snapshots are deleted with their timeline
+*/
+
+CREATE TABLE IF NOT EXISTS recalculation_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  timeline_id uuid NOT NULL REFERENCES timelines(id) ON DELETE CASCADE,
+  audit_entry_id uuid REFERENCES audit_entries(id) ON DELETE SET NULL,
+  blocks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tasks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  last_recalculated_at timestamptz,
+  scale_factor numeric,
+  options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  restored_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_recalculation_snapshots_timeline_id
+  ON recalculation_snapshots(timeline_id, created_at DESC);
+
+ALTER TABLE recalculation_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin can read recalculation snapshots" ON recalculation_snapshots;
+CREATE POLICY "Admin can read recalculation snapshots"
+  ON recalculation_snapshots
+  FOR SELECT
+  TO public
+  USING (
+    EXISTS (
+      SELECT 1 FROM timelines
+      WHERE timelines.id = recalculation_snapshots.timeline_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Admin can create recalculation snapshots" ON recalculation_snapshots;
+CREATE POLICY "Admin can create recalculation snapshots"
+  ON recalculation_snapshots
+  FOR INSERT
+  TO public
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM timelines
+      WHERE timelines.id = recalculation_snapshots.timeline_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Admin can update recalculation snapshots" ON recalculation_snapshots;
+CREATE POLICY "Admin can update recalculation snapshots"
+  ON recalculation_snapshots
+  FOR UPDATE
+  TO public
+  USING (
+    EXISTS (
+      SELECT 1 FROM timelines
+      WHERE timelines.id = recalculation_snapshots.timeline_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM timelines
+      WHERE timelines.id = recalculation_snapshots.timeline_id
+    )
+  );
+
+COMMENT ON TABLE recalculation_snapshots IS 'Block and task dates captured before each recalculation, used to revert it';
@@ -0,0 +1,90 @@
+/*
+  # Carry Template Month Offsets into Timeline Blocks
+
+  Recalculation used to guess each block's window by pattern-matching its key
+  ("12m", "8-10m", "2w"), so any other key fell back to 0/0 and collapsed onto the
+  event date. Offsets now come from `template_blocks` and are copied onto `blocks`.
+
+  ## Changes
+
+  1. Blocks
+    - Add `months_before_start` (numeric): canonical start of the block, in months before the event
+    - Add `months_before_end` (numeric): canonical end of the block, in months before the event
+
+  2. Backfill
+    - `template_blocks` without offsets are filled from their titles ("8-10 months before",
+      "2 weeks before"); single values end where the next block starts, and the last block
+      ends at the event
+    - Existing `blocks` copy the offsets of the matching template block (same template and key)
+
+  ## Notes
+  - Weeks are converted at 4 weeks per month, matching the seed format
+  - Blocks still without offsets fall back to the old key matching during recalculation
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'blocks' AND column_name = 'months_before_start'
+  ) THEN
+    ALTER TABLE blocks ADD COLUMN months_before_start numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'blocks' AND column_name = 'months_before_end'
+  ) THEN
+    ALTER TABLE blocks ADD COLUMN months_before_end numeric;
+  END IF;
+END $$;
+
+WITH parsed AS (
+  SELECT
+    id,
+    template_id,
+    "order",
+    regexp_match(lower(title), '(\d+)(?:\s*-\s*(\d+))?\s*(month|week)') AS m
+  FROM template_blocks
+  WHERE months_before_start IS NULL
+),
+offsets AS (
+  SELECT
+    id,
+    template_id,
+    "order",
+    greatest(m[1]::numeric, coalesce(m[2], m[1])::numeric)
+      / CASE WHEN m[3] = 'week' THEN 4 ELSE 1 END AS start_months,
+    CASE WHEN m[2] IS NOT NULL
+      THEN least(m[1]::numeric, m[2]::numeric) / CASE WHEN m[3] = 'week' THEN 4 ELSE 1 END
+    END AS range_end_months
+  FROM parsed
+  WHERE m IS NOT NULL
+),
+ordered AS (
+  SELECT
+    *,
+    lead(start_months) OVER (PARTITION BY template_id ORDER BY "order") AS next_start_months
+  FROM offsets
+)
+UPDATE template_blocks tb
+SET
+  months_before_start = o.start_months,
+  months_before_end = coalesce(o.range_end_months, o.next_start_months, 0)
+FROM ordered o
+WHERE tb.id = o.id;
+
+UPDATE blocks b
+SET
+  months_before_start = tb.months_before_start,
+  months_before_end = tb.months_before_end
+FROM timelines t
+JOIN templates tp ON tp.template_key = t.template_key
+JOIN template_blocks tb ON tb.template_id = tp.id
+WHERE b.timeline_id = t.id
+  AND tb.key = b.key
+  AND b.months_before_start IS NULL
+  AND tb.months_before_start IS NOT NULL;
+
+COMMENT ON COLUMN blocks.months_before_start IS 'Canonical block start in months before the event, copied from template_blocks';
+COMMENT ON COLUMN blocks.months_before_end IS 'Canonical block end in months before the event, copied from template_blocks';
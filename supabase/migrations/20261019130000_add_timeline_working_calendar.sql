@@ -0,0 +1,32 @@
+/*
+  # Add Working Calendar to Timelines
+
+  Recalculation placed due dates on any calendar day, including weekends, bank
+  holidays, Shabbat and Jewish festivals. Each timeline can now carry a working
+  calendar that recalculation respects.
+
+  ## Changes
+
+  1. Timelines
+    - Add `working_calendar` (jsonb, nullable):
+      `{ "workingDays": [1,2,3,4,5], "blackoutDates": ["2026-06-12"], "holidaySets": ["uk_bank_holidays", "jewish_festivals"] }`
+      - `workingDays`: UTC weekday numbers (0 = Sunday … 6 = Saturday)
+      - `blackoutDates`: explicit non-working dates for this timeline
+      - `holidaySets`: keys into `src/assets/holidays.json`
+
+  ## Notes
+  - NULL keeps the previous behaviour (every day is schedulable)
+  - Locked tasks keep their dates even if they fall on a non-working day
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'timelines' AND column_name = 'working_calendar'
+  ) THEN
+    ALTER TABLE timelines ADD COLUMN working_calendar jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN timelines.working_calendar IS 'Working weekdays, blackout dates and holiday sets used by recalculation';
@@ -0,0 +1,61 @@
+/*
+  # Add Weekly Schedule Mode
+
+  With less than two months to go, recalculation squeezed the monthly blocks into
+  a few days each. Short lead times are now planned week by week ("Week -6" …
+  "Week -1"), and non-essential tasks are flagged for a planner to review.
+
+  ## Changes
+
+  1. Timelines
+    - Add `schedule_mode` (text, default 'monthly'): 'monthly' or 'weekly', set by the
+      last recalculation
+
+  2. Tasks
+    - Add `week_offset` (integer, nullable): weeks before the event the task is due in
+      weekly mode (-1 is the week before the event)
+    - Add `needs_review` (boolean, default false): non-skeleton task a planner should
+      keep, drop or move in weekly mode
+
+  3. Recalculation Snapshots
+    - Add `schedule_mode` (text): timeline schedule mode before the run, restored on revert
+
+  ## Notes
+  - Monthly recalculations clear `week_offset` and `needs_review`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'timelines' AND column_name = 'schedule_mode'
+  ) THEN
+    ALTER TABLE timelines ADD COLUMN schedule_mode text NOT NULL DEFAULT 'monthly'
+      CHECK (schedule_mode IN ('monthly', 'weekly'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'week_offset'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN week_offset integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'needs_review'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN needs_review boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recalculation_snapshots' AND column_name = 'schedule_mode'
+  ) THEN
+    ALTER TABLE recalculation_snapshots ADD COLUMN schedule_mode text;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN timelines.schedule_mode IS 'monthly blocks, or weekly buckets for lead times under two months';
+COMMENT ON COLUMN tasks.week_offset IS 'Weekly mode: weeks before the event the task is due in (-1 = week before the event)';
+COMMENT ON COLUMN tasks.needs_review IS 'Weekly mode: non-essential task flagged for planner review';
@@ -0,0 +1,70 @@
+/*
+  # Add Task Durations and Supplier Lead Times
+
+  A task only had a due date, so recalculation could schedule "Order printed
+  invitations" two weeks before the event even though the printer needs ten.
+  Tasks can now carry a start date, a duration and a minimum lead time before the
+  event.
+
+  ## Changes
+
+  1. Tasks
+    - Add `start_date` (date, nullable): when work on the task starts
+    - Add `duration_days` (integer, nullable, >= 0): days from start to due date
+    - Add `min_lead_days_before_event` (integer, nullable, >= 0): the task must be due
+      at least this many days before the event
+
+  2. Template Tasks
+    - Add `duration_days` and `min_lead_days_before_event`, copied onto tasks when a
+      timeline is created
+
+  ## Notes
+  - Template tasks have no `start_date`: templates are relative to the event date, so
+    start dates are derived from the due date and duration at recalculation
+  - Recalculation sets `start_date = due_date - duration_days`; for tasks with a start
+    date but no duration, the existing gap between start and due date is kept
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'start_date'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN start_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'duration_days'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN duration_days integer CHECK (duration_days >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'min_lead_days_before_event'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN min_lead_days_before_event integer CHECK (min_lead_days_before_event >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'template_tasks' AND column_name = 'duration_days'
+  ) THEN
+    ALTER TABLE template_tasks ADD COLUMN duration_days integer CHECK (duration_days >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'template_tasks' AND column_name = 'min_lead_days_before_event'
+  ) THEN
+    ALTER TABLE template_tasks ADD COLUMN min_lead_days_before_event integer CHECK (min_lead_days_before_event >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN tasks.start_date IS 'When work on the task starts; derived from due_date - duration_days on recalculation';
+COMMENT ON COLUMN tasks.duration_days IS 'Days from start_date to due_date';
+COMMENT ON COLUMN tasks.min_lead_days_before_event IS 'Supplier lead time: latest due date is this many days before the event';
+COMMENT ON COLUMN template_tasks.duration_days IS 'Copied onto tasks.duration_days';
+COMMENT ON COLUMN template_tasks.min_lead_days_before_event IS 'Copied onto tasks.min_lead_days_before_event';
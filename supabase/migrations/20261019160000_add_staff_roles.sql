@@ -0,0 +1,127 @@
+/*
+  # Add Staff Accounts and Role-Based Access
+
+  The admin views used the anon key, and "Admin can update all task fields" only
+  checked that the task's timeline existed, so anyone with the anon key could edit
+  any task. Admin access now requires a Supabase Auth user with a staff role.
+
+  ## Changes
+
+  1. New Tables
+    - `staff_members`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `email` (text): recorded as `actor` / `done_by` on staff changes
+      - `display_name` (text, nullable)
+      - `role` (text): 'owner', 'planner' or 'read_only'
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `staff_role()`: the current user's role, or null for non-staff
+    - `is_staff_editor()`: true for owners and planners
+
+  3. Policies
+    - Drop "Admin can update all task fields" and the "Admin ... recalculation
+      snapshots" policies, which were open to the anon role
+    - All staff can read timelines, events, blocks, tasks, audit entries, share
+      links, recalculation snapshots and event date mutations
+    - Owners and planners can insert, update and delete them
+    - Staff audit entries must carry the author's own email as `actor`
+    - Only owners can manage `staff_members`
+
+  ## Notes
+  - The share-link policies for the client portal are unchanged
+  - Edge functions using the service role check roles themselves
+  - To bootstrap, insert the first owner with the service role:
+    INSERT INTO staff_members (user_id, email, role) VALUES ('<auth user id>', '<email>', 'owner');
+*/
+
+CREATE TABLE IF NOT EXISTS staff_members (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  display_name text,
+  role text NOT NULL DEFAULT 'read_only' CHECK (role IN ('owner', 'planner', 'read_only')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so policies on staff_members itself can call these without recursing
+CREATE OR REPLACE FUNCTION staff_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM staff_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_staff_editor()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(staff_role() IN ('owner', 'planner'), false);
+$$;
+
+DROP POLICY IF EXISTS "Staff can read staff members" ON staff_members;
+CREATE POLICY "Staff can read staff members"
+  ON staff_members FOR SELECT
+  TO authenticated
+  USING (staff_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can manage staff members" ON staff_members;
+CREATE POLICY "Owners can manage staff members"
+  ON staff_members FOR ALL
+  TO authenticated
+  USING (staff_role() = 'owner')
+  WITH CHECK (staff_role() = 'owner');
+
+-- Replace the admin policies that were granted to the anon role
+DROP POLICY IF EXISTS "Admin can update all task fields" ON tasks;
+DROP POLICY IF EXISTS "Admin can read recalculation snapshots" ON recalculation_snapshots;
+DROP POLICY IF EXISTS "Admin can create recalculation snapshots" ON recalculation_snapshots;
+DROP POLICY IF EXISTS "Admin can update recalculation snapshots" ON recalculation_snapshots;
+
+DO $$
+DECLARE
+  staff_table text;
+BEGIN
+  FOREACH staff_table IN ARRAY ARRAY[
+    'timelines', 'events', 'blocks', 'tasks', 'share_links',
+    'recalculation_snapshots', 'event_date_mutations'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Staff can read %1$s" ON %1$I', staff_table);
+    EXECUTE format(
+      'CREATE POLICY "Staff can read %1$s" ON %1$I FOR SELECT TO authenticated USING (staff_role() IS NOT NULL)',
+      staff_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Staff editors can modify %1$s" ON %1$I', staff_table);
+    EXECUTE format(
+      'CREATE POLICY "Staff editors can modify %1$s" ON %1$I FOR ALL TO authenticated USING (is_staff_editor()) WITH CHECK (is_staff_editor())',
+      staff_table
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Staff can read audit entries" ON audit_entries;
+CREATE POLICY "Staff can read audit entries"
+  ON audit_entries FOR SELECT
+  TO authenticated
+  USING (staff_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff editors can create audit entries as themselves" ON audit_entries;
+CREATE POLICY "Staff editors can create audit entries as themselves"
+  ON audit_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_staff_editor()
+    AND actor = (SELECT email FROM staff_members WHERE user_id = auth.uid())
+  );
+
+COMMENT ON TABLE staff_members IS 'Supabase Auth users with access to the admin views';
+COMMENT ON COLUMN staff_members.role IS 'owner: everything, including staff and templates; planner: edit timelines; read_only: view only';
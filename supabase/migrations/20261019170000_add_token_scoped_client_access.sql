@@ -0,0 +1,201 @@
+/*
+  # Token-Scoped Client Access
+
+  The share-link policies let the anon role read a timeline (and update its client
+  tasks) whenever any unexpired share link existed for it; the token itself was
+  never checked. The client portal now goes through security-definer functions
+  that take the token, so a token only opens the timeline it belongs to.
+
+  ## Changes
+
+  1. Policies
+    - Drop every policy on timelines, events, blocks, tasks, audit_entries and
+      share_links granted to the public or anon roles. Staff policies (granted to
+      authenticated) are unchanged.
+
+  2. Functions
+    - `share_link_timeline_id(token)`: the timeline for an unexpired token; raises
+      'Invalid or expired link' / 'This link has expired'. Not callable by clients.
+    - `client_timeline(token)`: the timeline with its event, blocks and tasks as JSON
+    - `client_set_task_done(token, task_id, done)`: checks or unchecks a `client` or
+      `joint` task on the token's timeline and writes the audit entry
+    - `client_add_general_task(token, title, due_date)`: adds a client task to the
+      General block when the timeline allows it
+
+  ## Notes
+  - All client functions run as the function owner and check the token themselves;
+    anon has no direct table access any more
+  - `js` tasks are readable through `client_timeline` (the portal shows them) but
+    cannot be changed
+*/
+
+DO $$
+DECLARE
+  policy record;
+BEGIN
+  FOR policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('timelines', 'events', 'blocks', 'tasks', 'audit_entries', 'share_links')
+      AND roles && ARRAY['public', 'anon']::name[]
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', policy.policyname, policy.tablename);
+  END LOOP;
+END $$;
+
+CREATE OR REPLACE FUNCTION share_link_timeline_id(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link share_links;
+BEGIN
+  SELECT * INTO v_link FROM share_links WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+  IF v_link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This link has expired';
+  END IF;
+
+  RETURN v_link.timeline_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_timeline(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+BEGIN
+  RETURN (
+    SELECT to_jsonb(t) || jsonb_build_object(
+      'event', (SELECT to_jsonb(e) FROM events e WHERE e.id = t.event_id),
+      'blocks', COALESCE((
+        SELECT jsonb_agg(
+          to_jsonb(b) || jsonb_build_object(
+            'tasks', COALESCE((
+              SELECT jsonb_agg(to_jsonb(k) ORDER BY k."order")
+              FROM tasks k
+              WHERE k.block_id = b.id
+            ), '[]'::jsonb)
+          )
+          ORDER BY b."order"
+        )
+        FROM blocks b
+        WHERE b.timeline_id = t.id
+      ), '[]'::jsonb)
+    )
+    FROM timelines t
+    WHERE t.id = v_timeline_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_set_task_done(p_token text, p_task_id uuid, p_done boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+  v_task tasks;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id AND timeline_id = v_timeline_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+  IF v_task.assignee NOT IN ('client', 'joint') THEN
+    RAISE EXCEPTION 'Only client and joint tasks can be changed from this link';
+  END IF;
+  IF v_task.done = p_done THEN
+    RETURN to_jsonb(v_task);
+  END IF;
+
+  UPDATE tasks
+  SET done = p_done,
+      done_at = CASE WHEN p_done THEN now() END,
+      done_by = CASE WHEN p_done THEN 'client' END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (
+    v_timeline_id,
+    p_task_id,
+    CASE WHEN p_done THEN 'check' ELSE 'uncheck' END,
+    'client',
+    jsonb_build_object('done', jsonb_build_object('from', NOT p_done, 'to', p_done))
+  );
+
+  RETURN to_jsonb(v_task);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_add_general_task(p_token text, p_title text, p_due_date date DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+  v_block_id uuid;
+  v_task tasks;
+BEGIN
+  IF COALESCE(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'Task title is required';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM timelines WHERE id = v_timeline_id AND allow_client_task_create
+  ) THEN
+    RAISE EXCEPTION 'Adding tasks is not enabled for this timeline';
+  END IF;
+
+  SELECT id INTO v_block_id FROM blocks WHERE timeline_id = v_timeline_id AND is_general LIMIT 1;
+  IF v_block_id IS NULL THEN
+    RAISE EXCEPTION 'This timeline has no General block';
+  END IF;
+
+  INSERT INTO tasks (timeline_id, block_id, title, assignee, weight, is_skeleton, done, due_date, "order")
+  VALUES (
+    v_timeline_id,
+    v_block_id,
+    trim(p_title),
+    'client',
+    1,
+    false,
+    false,
+    p_due_date,
+    (SELECT COALESCE(max("order"), 0) + 1 FROM tasks WHERE block_id = v_block_id)
+  )
+  RETURNING * INTO v_task;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (v_timeline_id, v_task.id, 'create', 'client', jsonb_build_object('title', v_task.title));
+
+  RETURN to_jsonb(v_task);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION share_link_timeline_id(text) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION client_timeline(text) FROM public;
+REVOKE ALL ON FUNCTION client_set_task_done(text, uuid, boolean) FROM public;
+REVOKE ALL ON FUNCTION client_add_general_task(text, text, date) FROM public;
+GRANT EXECUTE ON FUNCTION client_timeline(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION client_set_task_done(text, uuid, boolean) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION client_add_general_task(text, text, date) TO anon, authenticated;
+
+COMMENT ON FUNCTION client_timeline(text) IS 'Client portal: the share token''s timeline with event, blocks and tasks';
+COMMENT ON FUNCTION client_set_task_done(text, uuid, boolean) IS 'Client portal: check or uncheck a client/joint task on the share token''s timeline';
+COMMENT ON FUNCTION client_add_general_task(text, text, date) IS 'Client portal: add a client task to the General block when allowed';
@@ -0,0 +1,238 @@
+/*
+  # Named Share Links with Revocation and Access Log
+
+  Generating a share link deleted every existing link for the timeline, so sharing
+  with a second family member broke the first member's link. A timeline can now
+  have several named links, each with its own expiry, optional read-only mode and
+  explicit revocation.
+
+  ## Changes
+
+  1. Share Links
+    - Add `label` (text, nullable): who the link is for, e.g. "Bride"
+    - Add `read_only` (boolean, default false): the link can view but not change tasks
+    - Add `revoked_at` (timestamptz, nullable): revoked links stop working immediately
+    - Add `last_accessed_at` (timestamptz, nullable) and `access_count` (integer,
+      default 0): updated each time the client portal opens the link
+
+  2. Functions
+    - `share_link_timeline_id(token, for_write)` replaces `share_link_timeline_id(token)`:
+      also rejects revoked links, and read-only links when `for_write` is set
+    - `client_timeline` records the access and returns the link's `label`,
+      `read_only` and `expires_at` as `share_link`
+    - `client_set_task_done` and `client_add_general_task` reject read-only links
+
+  ## Notes
+  - Calendar feeds and exports honour revocation but do not count as accesses
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'label'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN label text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'read_only'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN read_only boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'revoked_at'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN revoked_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'last_accessed_at'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN last_accessed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'access_count'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN access_count integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS share_link_timeline_id(text);
+
+CREATE OR REPLACE FUNCTION share_link_timeline_id(p_token text, p_for_write boolean DEFAULT false)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link share_links;
+BEGIN
+  SELECT * INTO v_link FROM share_links WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+  IF v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This link has been revoked';
+  END IF;
+  IF v_link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This link has expired';
+  END IF;
+  IF p_for_write AND v_link.read_only THEN
+    RAISE EXCEPTION 'This link is view-only';
+  END IF;
+
+  RETURN v_link.timeline_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_timeline(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+  v_link share_links;
+BEGIN
+  UPDATE share_links
+  SET last_accessed_at = now(),
+      access_count = access_count + 1
+  WHERE token = p_token
+  RETURNING * INTO v_link;
+
+  RETURN (
+    SELECT to_jsonb(t) || jsonb_build_object(
+      'share_link', jsonb_build_object(
+        'label', v_link.label,
+        'read_only', v_link.read_only,
+        'expires_at', v_link.expires_at
+      ),
+      'event', (SELECT to_jsonb(e) FROM events e WHERE e.id = t.event_id),
+      'blocks', COALESCE((
+        SELECT jsonb_agg(
+          to_jsonb(b) || jsonb_build_object(
+            'tasks', COALESCE((
+              SELECT jsonb_agg(to_jsonb(k) ORDER BY k."order")
+              FROM tasks k
+              WHERE k.block_id = b.id
+            ), '[]'::jsonb)
+          )
+          ORDER BY b."order"
+        )
+        FROM blocks b
+        WHERE b.timeline_id = t.id
+      ), '[]'::jsonb)
+    )
+    FROM timelines t
+    WHERE t.id = v_timeline_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_set_task_done(p_token text, p_task_id uuid, p_done boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token, true);
+  v_task tasks;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id AND timeline_id = v_timeline_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+  IF v_task.assignee NOT IN ('client', 'joint') THEN
+    RAISE EXCEPTION 'Only client and joint tasks can be changed from this link';
+  END IF;
+  IF v_task.done = p_done THEN
+    RETURN to_jsonb(v_task);
+  END IF;
+
+  UPDATE tasks
+  SET done = p_done,
+      done_at = CASE WHEN p_done THEN now() END,
+      done_by = CASE WHEN p_done THEN 'client' END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (
+    v_timeline_id,
+    p_task_id,
+    CASE WHEN p_done THEN 'check' ELSE 'uncheck' END,
+    'client',
+    jsonb_build_object('done', jsonb_build_object('from', NOT p_done, 'to', p_done))
+  );
+
+  RETURN to_jsonb(v_task);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_add_general_task(p_token text, p_title text, p_due_date date DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token, true);
+  v_block_id uuid;
+  v_task tasks;
+BEGIN
+  IF COALESCE(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'Task title is required';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM timelines WHERE id = v_timeline_id AND allow_client_task_create
+  ) THEN
+    RAISE EXCEPTION 'Adding tasks is not enabled for this timeline';
+  END IF;
+
+  SELECT id INTO v_block_id FROM blocks WHERE timeline_id = v_timeline_id AND is_general LIMIT 1;
+  IF v_block_id IS NULL THEN
+    RAISE EXCEPTION 'This timeline has no General block';
+  END IF;
+
+  INSERT INTO tasks (timeline_id, block_id, title, assignee, weight, is_skeleton, done, due_date, "order")
+  VALUES (
+    v_timeline_id,
+    v_block_id,
+    trim(p_title),
+    'client',
+    1,
+    false,
+    false,
+    p_due_date,
+    (SELECT COALESCE(max("order"), 0) + 1 FROM tasks WHERE block_id = v_block_id)
+  )
+  RETURNING * INTO v_task;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (v_timeline_id, v_task.id, 'create', 'client', jsonb_build_object('title', v_task.title));
+
+  RETURN to_jsonb(v_task);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION share_link_timeline_id(text, boolean) FROM public, anon, authenticated;
+
+COMMENT ON COLUMN share_links.label IS 'Who the link was shared with, e.g. "Bride"';
+COMMENT ON COLUMN share_links.read_only IS 'The link can view the timeline but not change tasks';
+COMMENT ON COLUMN share_links.revoked_at IS 'Set when staff revoke the link; revoked links stop working';
+COMMENT ON COLUMN share_links.last_accessed_at IS 'Last time the client portal opened the link';
+COMMENT ON COLUMN share_links.access_count IS 'Number of times the client portal opened the link';
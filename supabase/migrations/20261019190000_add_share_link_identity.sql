@@ -0,0 +1,238 @@
+/*
+  # Per-Link Identity for Client Actions
+
+  Client changes were all recorded as 'client', so when both partners used the
+  portal nobody could tell who ticked what. Each share link can now carry the name
+  (and optionally the email) of the person it belongs to, set by staff when the
+  link is created or by the client on their first visit.
+
+  ## Changes
+
+  1. Share Links
+    - Add `display_name` (text, nullable): the person using the link
+    - Add `email` (text, nullable)
+
+  2. Functions
+    - `share_link_actor(token)`: `display_name`, else `label`, else 'client'. Not
+      callable by clients.
+    - `client_set_identity(token, display_name, email)`: names a link that has no
+      `display_name` yet; a named link cannot be renamed from the portal
+    - `client_timeline` also returns the link's `display_name` and `email`
+    - `client_set_task_done` and `client_add_general_task` record
+      `share_link_actor(token)` as `done_by` and `actor`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'display_name'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN display_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'email'
+  ) THEN
+    ALTER TABLE share_links ADD COLUMN email text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION share_link_actor(p_token text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(NULLIF(trim(display_name), ''), NULLIF(trim(label), ''), 'client')
+  FROM share_links
+  WHERE token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION client_set_identity(p_token text, p_display_name text, p_email text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+  v_link share_links;
+BEGIN
+  IF COALESCE(trim(p_display_name), '') = '' OR length(trim(p_display_name)) > 80 THEN
+    RAISE EXCEPTION 'Enter your name (at most 80 characters)';
+  END IF;
+  IF NULLIF(trim(p_email), '') IS NOT NULL AND trim(p_email) !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  UPDATE share_links
+  SET display_name = trim(p_display_name),
+      email = NULLIF(trim(p_email), '')
+  WHERE token = p_token AND display_name IS NULL
+  RETURNING * INTO v_link;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link already belongs to someone else';
+  END IF;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (
+    v_timeline_id,
+    NULL,
+    'edit',
+    v_link.display_name,
+    jsonb_build_object('type', 'share_link_identity', 'share_link_id', v_link.id, 'email', v_link.email)
+  );
+
+  RETURN jsonb_build_object('display_name', v_link.display_name, 'email', v_link.email);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_timeline(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+  v_link share_links;
+BEGIN
+  UPDATE share_links
+  SET last_accessed_at = now(),
+      access_count = access_count + 1
+  WHERE token = p_token
+  RETURNING * INTO v_link;
+
+  RETURN (
+    SELECT to_jsonb(t) || jsonb_build_object(
+      'share_link', jsonb_build_object(
+        'label', v_link.label,
+        'display_name', v_link.display_name,
+        'email', v_link.email,
+        'read_only', v_link.read_only,
+        'expires_at', v_link.expires_at
+      ),
+      'event', (SELECT to_jsonb(e) FROM events e WHERE e.id = t.event_id),
+      'blocks', COALESCE((
+        SELECT jsonb_agg(
+          to_jsonb(b) || jsonb_build_object(
+            'tasks', COALESCE((
+              SELECT jsonb_agg(to_jsonb(k) ORDER BY k."order")
+              FROM tasks k
+              WHERE k.block_id = b.id
+            ), '[]'::jsonb)
+          )
+          ORDER BY b."order"
+        )
+        FROM blocks b
+        WHERE b.timeline_id = t.id
+      ), '[]'::jsonb)
+    )
+    FROM timelines t
+    WHERE t.id = v_timeline_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_set_task_done(p_token text, p_task_id uuid, p_done boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token, true);
+  v_actor text := share_link_actor(p_token);
+  v_task tasks;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id AND timeline_id = v_timeline_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+  IF v_task.assignee NOT IN ('client', 'joint') THEN
+    RAISE EXCEPTION 'Only client and joint tasks can be changed from this link';
+  END IF;
+  IF v_task.done = p_done THEN
+    RETURN to_jsonb(v_task);
+  END IF;
+
+  UPDATE tasks
+  SET done = p_done,
+      done_at = CASE WHEN p_done THEN now() END,
+      done_by = CASE WHEN p_done THEN v_actor END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (
+    v_timeline_id,
+    p_task_id,
+    CASE WHEN p_done THEN 'check' ELSE 'uncheck' END,
+    v_actor,
+    jsonb_build_object('done', jsonb_build_object('from', NOT p_done, 'to', p_done))
+  );
+
+  RETURN to_jsonb(v_task);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION client_add_general_task(p_token text, p_title text, p_due_date date DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token, true);
+  v_actor text := share_link_actor(p_token);
+  v_block_id uuid;
+  v_task tasks;
+BEGIN
+  IF COALESCE(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'Task title is required';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM timelines WHERE id = v_timeline_id AND allow_client_task_create
+  ) THEN
+    RAISE EXCEPTION 'Adding tasks is not enabled for this timeline';
+  END IF;
+
+  SELECT id INTO v_block_id FROM blocks WHERE timeline_id = v_timeline_id AND is_general LIMIT 1;
+  IF v_block_id IS NULL THEN
+    RAISE EXCEPTION 'This timeline has no General block';
+  END IF;
+
+  INSERT INTO tasks (timeline_id, block_id, title, assignee, weight, is_skeleton, done, due_date, "order")
+  VALUES (
+    v_timeline_id,
+    v_block_id,
+    trim(p_title),
+    'client',
+    1,
+    false,
+    false,
+    p_due_date,
+    (SELECT COALESCE(max("order"), 0) + 1 FROM tasks WHERE block_id = v_block_id)
+  )
+  RETURNING * INTO v_task;
+
+  INSERT INTO audit_entries (timeline_id, task_id, action, actor, changes)
+  VALUES (v_timeline_id, v_task.id, 'create', v_actor, jsonb_build_object('title', v_task.title));
+
+  RETURN to_jsonb(v_task);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION share_link_actor(text) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION client_set_identity(text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION client_set_identity(text, text, text) TO anon, authenticated;
+
+COMMENT ON COLUMN share_links.display_name IS 'Name of the person using the link; recorded as done_by / actor on their changes';
+COMMENT ON COLUMN share_links.email IS 'Optional email of the person using the link';
+COMMENT ON FUNCTION client_set_identity(text, text, text) IS 'Client portal: name an unnamed share link on first visit';
@@ -0,0 +1,59 @@
+/*
+  # Short Codes for Share Links
+
+  Share URLs returned by the edge functions pointed at `/timeline?token=` on a
+  mangled Supabase host, which the app does not serve. Links now point at the
+  app's `/client` route, and each link also gets a short code so it can be
+  handed out as `/s/{code}`.
+
+  ## Changes
+
+  1. Share Links
+    - Add `short_code` (text, unique, not null): 12 random hex characters,
+      generated on insert and backfilled for existing links
+
+  2. Functions
+    - `client_share_token(short_code)`: the token behind a short code, for the
+      `/s/{code}` route. Raises the same errors as the other client functions
+      for unknown, revoked or expired links.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'short_code'
+  ) THEN
+    ALTER TABLE share_links
+      ADD COLUMN short_code text NOT NULL DEFAULT substr(replace(gen_random_uuid()::text, '-', ''), 1, 12);
+    ALTER TABLE share_links ADD CONSTRAINT share_links_short_code_key UNIQUE (short_code);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION client_share_token(p_short_code text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  SELECT token INTO v_token FROM share_links WHERE short_code = lower(p_short_code);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+
+  PERFORM share_link_timeline_id(v_token);
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION client_share_token(text) FROM public;
+GRANT EXECUTE ON FUNCTION client_share_token(text) TO anon, authenticated;
+
+COMMENT ON COLUMN share_links.short_code IS 'Short code for the /s/{code} link; opens the same timeline as the token';
+COMMENT ON FUNCTION client_share_token(text) IS 'Client portal: resolve a short code to its share token';
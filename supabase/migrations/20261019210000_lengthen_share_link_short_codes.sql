@@ -0,0 +1,57 @@
+/*
+  # Longer Share Link Short Codes
+
+  The 12-character short codes carried 48 random bits and resolve anonymously to
+  the full share token through `client_share_token`, with no rate limiting, so
+  they were far easier to guess than the token itself.
+
+  ## Changes
+
+  1. Share Links
+    - `short_code` defaults to a whole `gen_random_uuid()` without dashes: 32 hex
+      characters with 122 random bits
+    - Existing short codes are regenerated
+
+  2. Functions
+    - `client_share_token` rejects codes that are not 32 hex characters before
+      looking them up
+
+  ## Notes
+  - `/s/{code}` links handed out before this migration stop working; the full
+    `/client?token=` links and newly created short links are unaffected
+*/
+
+ALTER TABLE share_links
+  ALTER COLUMN short_code SET DEFAULT replace(gen_random_uuid()::text, '-', '');
+
+UPDATE share_links
+SET short_code = replace(gen_random_uuid()::text, '-', '')
+WHERE length(short_code) < 32;
+
+CREATE OR REPLACE FUNCTION client_share_token(p_short_code text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF lower(p_short_code) !~ '^[0-9a-f]{32}$' THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+
+  SELECT token INTO v_token FROM share_links WHERE short_code = lower(p_short_code);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+
+  PERFORM share_link_timeline_id(v_token);
+
+  RETURN v_token;
+END;
+$$;
+
+COMMENT ON COLUMN share_links.short_code IS 'Short code for the /s/{code} link (32 hex characters); opens the same timeline as the token';
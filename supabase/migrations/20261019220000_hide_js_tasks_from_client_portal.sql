@@ -0,0 +1,66 @@
+/*
+  # Hide JustSeventy Tasks from the Client Portal
+
+  `client_timeline` returned every task on the timeline, including `js` tasks and
+  the staff emails in their `done_by`. Share tokens are limited to client and
+  joint tasks, as the PDF and Word exports and the calendar feed already are.
+
+  ## Changes
+
+  1. Functions
+    - `client_timeline` only returns `client` and `joint` tasks
+
+  ## Notes
+  - Replaces the note in 20261019170000 that `js` tasks stay readable through
+    `client_timeline`
+  - Blocks with only `js` tasks are still returned, with an empty task list
+*/
+
+CREATE OR REPLACE FUNCTION client_timeline(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline_id uuid := share_link_timeline_id(p_token);
+  v_link share_links;
+BEGIN
+  UPDATE share_links
+  SET last_accessed_at = now(),
+      access_count = access_count + 1
+  WHERE token = p_token
+  RETURNING * INTO v_link;
+
+  RETURN (
+    SELECT to_jsonb(t) || jsonb_build_object(
+      'share_link', jsonb_build_object(
+        'label', v_link.label,
+        'display_name', v_link.display_name,
+        'email', v_link.email,
+        'read_only', v_link.read_only,
+        'expires_at', v_link.expires_at
+      ),
+      'event', (SELECT to_jsonb(e) FROM events e WHERE e.id = t.event_id),
+      'blocks', COALESCE((
+        SELECT jsonb_agg(
+          to_jsonb(b) || jsonb_build_object(
+            'tasks', COALESCE((
+              SELECT jsonb_agg(to_jsonb(k) ORDER BY k."order")
+              FROM tasks k
+              WHERE k.block_id = b.id
+                AND k.assignee IN ('client', 'joint')
+            ), '[]'::jsonb)
+          )
+          ORDER BY b."order"
+        )
+        FROM blocks b
+        WHERE b.timeline_id = t.id
+      ), '[]'::jsonb)
+    )
+    FROM timelines t
+    WHERE t.id = v_timeline_id
+  );
+END;
+$$;
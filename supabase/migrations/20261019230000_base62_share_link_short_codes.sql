@@ -0,0 +1,88 @@
+/*
+  # Base62 Share Link Short Codes
+
+  The 32 hex character short codes were barely shorter than the 64 character
+  token they stand for. The same entropy fits in far fewer base62 characters.
+
+  ## Changes
+
+  1. Functions
+    - `share_link_short_code()`: 22 random base62 characters (0-9, A-Z, a-z),
+      about 131 bits, drawn from `gen_random_bytes` without modulo bias
+    - `client_share_token` rejects codes that are not 22 base62 characters.
+      Codes are case-sensitive now, so they are no longer lowercased.
+
+  2. Share Links
+    - `short_code` defaults to `share_link_short_code()`
+    - Existing hex short codes are regenerated
+
+  ## Notes
+  - `/s/{code}` links handed out with a hex code stop working; the full
+    `/client?token=` links are unaffected
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION share_link_short_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet constant text := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  v_code text := '';
+  v_bytes bytea;
+  v_byte int;
+BEGIN
+  WHILE length(v_code) < 22 LOOP
+    v_bytes := extensions.gen_random_bytes(32);
+    FOR i IN 0..31 LOOP
+      v_byte := get_byte(v_bytes, i);
+      -- 248 is the largest multiple of 62 that fits in a byte; higher values
+      -- would make the first eight characters more likely
+      IF v_byte < 248 AND length(v_code) < 22 THEN
+        v_code := v_code || substr(v_alphabet, v_byte % 62 + 1, 1);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+ALTER TABLE share_links
+  ALTER COLUMN short_code SET DEFAULT share_link_short_code();
+
+UPDATE share_links
+SET short_code = share_link_short_code()
+WHERE short_code !~ '^[0-9A-Za-z]{22}$';
+
+CREATE OR REPLACE FUNCTION client_share_token(p_short_code text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF p_short_code !~ '^[0-9A-Za-z]{22}$' THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+
+  SELECT token INTO v_token FROM share_links WHERE short_code = p_short_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired link';
+  END IF;
+
+  PERFORM share_link_timeline_id(v_token);
+
+  RETURN v_token;
+END;
+$$;
+
+COMMENT ON FUNCTION share_link_short_code() IS 'Default for share_links.short_code: 22 random base62 characters';
+COMMENT ON COLUMN share_links.short_code IS 'Short code for the /s/{code} link (22 base62 characters); opens the same timeline as the token';
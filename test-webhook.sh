@@ -8,6 +8,8 @@ source .env
 
 SUPABASE_URL="${VITE_SUPABASE_URL}"
 ANON_KEY="${VITE_SUPABASE_ANON_KEY}"
+# Must match the WEBHOOK_SECRET set on the Edge Functions
+WEBHOOK_SECRET="${WEBHOOK_SECRET:?Set WEBHOOK_SECRET in .env}"
 
 echo "🧪 Testing JS Live Event Timeline Webhook"
 echo "=========================================="
@@ -18,6 +20,7 @@ echo "📦 Step 1: Seeding templates..."
 SEED_RESPONSE=$(curl -s -X POST \
   "${SUPABASE_URL}/functions/v1/templates-seed" \
   -H "Authorization: Bearer ${ANON_KEY}" \
+  -H "X-Webhook-Secret: ${WEBHOOK_SECRET}" \
   -H "Content-Type: application/json" \
   -d @seed-templates.json)
 
@@ -28,6 +31,8 @@ echo ""
 echo "💒 Step 2: Creating wedding timeline..."
 WEDDING_RESPONSE=$(curl -s -X POST \
   "${SUPABASE_URL}/functions/v1/timelines-create" \
+  -H "Authorization: Bearer ${ANON_KEY}" \
+  -H "X-Webhook-Secret: ${WEBHOOK_SECRET}" \
   -H "Content-Type: application/json" \
   -d '{
     "event": {
@@ -48,6 +53,8 @@ echo ""
 echo "🕍 Step 3: Creating Bar Mitzvah timeline..."
 BAR_MITZVAH_RESPONSE=$(curl -s -X POST \
   "${SUPABASE_URL}/functions/v1/timelines-create" \
+  -H "Authorization: Bearer ${ANON_KEY}" \
+  -H "X-Webhook-Secret: ${WEBHOOK_SECRET}" \
   -H "Content-Type: application/json" \
   -d '{
     "event": {